@@ -1,8 +1,9 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo, useRef, useCallback } from 'react';
 import { FaGithub } from 'react-icons/fa';
-import { fetchStats } from './services/api';
-import { StatsData, Timeframe, DashboardStats, ChartDataPoint, HeatMapData, Granularity, DataFilter } from './types';
-import { processStats, processChartData, processHeatMaps } from './utils/analytics';
+import { DataSource, createFileSource, getConfiguredSource } from './services/dataSources';
+import { loadCachedStats, saveCachedStats } from './services/cache';
+import { describeStatsError } from './services/errors';
+import { StatsData, Timeframe, Granularity, DateRange } from './types';
 import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
 
@@ -14,16 +15,50 @@ import StatCard from './components/StatCard';
 import PulseChart from './components/PulseChart';
 import WeeklyActivity from './components/WeeklyActivity';
 import HourlyIntensity from './components/HourlyIntensity';
-import SegmentedControl from './components/SegmentedControl';
+import BestTimes from './components/BestTimes';
+import RecentDrops from './components/RecentDrops';
+import CategoryFilter from './components/CategoryFilter';
+import DataCompletenessIndicator from './components/DataCompletenessIndicator';
+import LookbackControl from './components/LookbackControl';
+import SourcePicker from './components/SourcePicker';
+import TimeZoneSelect from './components/TimeZoneSelect';
+import AlertsPanel from './components/AlertsPanel';
+import AlertToasts from './components/AlertToasts';
+import useAlerts from './hooks/useAlerts';
+import useFileDrop from './hooks/useFileDrop';
+import useAnalytics from './hooks/useAnalytics';
+import useTimeZone from './hooks/useTimeZone';
+import useUrlState from './hooks/useUrlState';
+import { formatDateTime, formatWeekday, getComparisonShift, getDateKeyRange, getTimeZoneLabel } from './utils/analytics';
+import { describeLookback, formatDuration } from './utils/labels';
+import { DEFAULT_URL_STATE } from './utils/urlState';
 
 const App: React.FC = () => {
+  const [configuredSource] = useState<DataSource>(getConfiguredSource);
+  const [dataSource, setDataSource] = useState<DataSource>(configuredSource);
   const [rawData, setRawData] = useState<StatsData | null>(null);
+  const rawDataRef = useRef<StatsData | null>(null);
+  const pulseChartRef = useRef<HTMLDivElement>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isCached, setIsCached] = useState(false);
   
-  const [timeframe, setTimeframe] = useState<Timeframe>('1d');
-  const [granularity, setGranularity] = useState<Granularity>('1h');
-  const [dataFilter, setDataFilter] = useState<DataFilter>('all');
+  const [urlState, updateUrlState] = useUrlState();
+  const {
+    timeframe,
+    range: customRange,
+    granularity,
+    filter: dataFilter,
+    intensity,
+    lookback,
+    recencyWeighted,
+    sensitivity,
+    overlays,
+    dropSize,
+    scroll
+  } = urlState;
+  const [timeZone, setTimeZone] = useTimeZone();
+  const timeZoneLabel = getTimeZoneLabel(timeZone);
 
   // Enforce Granularity Constraints
   const validGranularities = useMemo((): Granularity[] => {
@@ -33,67 +68,144 @@ const App: React.FC = () => {
       case '1m': return ['1d'];
       case '3m': return ['1d'];
       case '1y': return ['1d'];
+      case 'custom': {
+        const duration = customRange ? customRange.end - customRange.start : 0;
+        if (duration <= 2 * 24 * 60 * 60 * 1000) return ['15m', '1h'];
+        if (duration <= 14 * 24 * 60 * 60 * 1000) return ['1h', '1d'];
+        return ['1d'];
+      }
       default: return ['1d'];
     }
-  }, [timeframe]);
+  }, [timeframe, customRange]);
 
   useEffect(() => {
     if (!validGranularities.includes(granularity)) {
-      setGranularity(validGranularities[0]);
+      updateUrlState({ granularity: validGranularities[0] }, 'replace');
+    }
+  }, [timeframe, validGranularities, granularity, updateUrlState]);
+
+  // The chart-range lookback goes away with the range it reads from
+  useEffect(() => {
+    if (lookback === 'range' && !(timeframe === 'custom' && customRange)) {
+      updateUrlState({ lookback: DEFAULT_URL_STATE.lookback }, 'replace');
     }
-  }, [timeframe, validGranularities, granularity]);
+  }, [lookback, timeframe, customRange, updateUrlState]);
 
   useEffect(() => {
+    let cancelled = false;
+    rawDataRef.current = null;
+    setRawData(null);
+    setIsCached(false);
+    setError(null);
+
     const loadData = async () => {
       try {
         setLoading(true);
         const fetchLabel = '[Perf] API Fetch & Parse';
         console.time(fetchLabel);
-        const data = await fetchStats();
+        const data = await dataSource.load(rawDataRef.current);
         console.timeEnd(fetchLabel);
+        if (cancelled) return;
         console.log(`[Perf] Data Size: ${data.history.length} items`);
+        rawDataRef.current = data;
         setRawData(data);
+        setIsCached(false);
+        setError(null);
+        if (dataSource.live) {
+          saveCachedStats(dataSource.id, data);
+        }
       } catch (err) {
         console.timeEnd('[Perf] API Fetch & Parse');
-        setError('Failed to load stats. Please check your connection.');
+        console.error(err);
+        if (cancelled) return;
+        if (rawDataRef.current) {
+          // Keep showing what we have, flagged as cached, until a refresh succeeds
+          setIsCached(true);
+        } else {
+          setError(describeStatsError(err));
+        }
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const init = async () => {
+      const cached = dataSource.live ? await loadCachedStats(dataSource.id) : null;
+      if (cancelled) return;
+      if (cached && !rawDataRef.current) {
+        rawDataRef.current = cached;
+        setRawData(cached);
+        setIsCached(true);
       }
+      await loadData();
     };
 
-    loadData();
+    init();
+    if (!dataSource.live) {
+      return () => { cancelled = true; };
+    }
+
     const interval = setInterval(loadData, 60000);
-    return () => clearInterval(interval);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [dataSource]);
+
+  const handleFile = useCallback((file: File) => {
+    setDataSource(createFileSource(file));
   }, []);
 
-  const dashboardStats: DashboardStats = useMemo(() => {
-    if (!rawData) return { lastHour: 0, today: 0, todayGrowth: 0, todayMedian: 0, thisWeek: 0, weekGrowth: 0, weekMedian: 0, updatedAt: null };
-    const label = '[Perf] processStats';
-    console.time(label);
-    const result = processStats(rawData.history, rawData.meta.updatedAt);
-    console.timeEnd(label);
-    return result;
-  }, [rawData]);
-
-  const chartData: ChartDataPoint[] = useMemo(() => {
-    if (!rawData) return [];
-    const label = '[Perf] processChartData';
-    console.time(label);
-    const result = processChartData(rawData.history, granularity, dataFilter);
-    console.timeEnd(label);
-    return result;
-  }, [rawData, granularity, dataFilter]);
-
-  const heatMapData: HeatMapData = useMemo(() => {
-    if (!rawData) return { weekly: {}, hourlyMedian: [], hourlyMean: [], maxDaily: 1, maxHourlyMedian: 1, maxHourlyMean: 1 };
-    const label = '[Perf] processHeatMaps';
-    console.time(label);
-    const result = processHeatMaps(rawData.history, dataFilter);
-    console.timeEnd(label);
-    return result;
-  }, [rawData, dataFilter]);
-
-  if (loading && !rawData) {
+  useFileDrop(handleFile);
+
+  const handleTimeframeChange = (tf: Timeframe) => {
+    if (tf === 'custom') return;
+    updateUrlState({ timeframe: tf, range: null });
+  };
+
+  const handleRangeChange = (range: DateRange | null) => {
+    updateUrlState({ timeframe: range ? 'custom' : '1d', range });
+  };
+
+  // Heat map drill-down: show one local day hour by hour and bring the chart into view
+  const handleOpenDate = (dateKey: string) => {
+    updateUrlState({ timeframe: 'custom', range: getDateKeyRange(dateKey, timeZone), granularity: '1h' });
+    pulseChartRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Only fresh live data is checked, so snapshots and stale caches never replay old drops
+  const alertsActive = dataSource.live && !isCached;
+  const alerts = useAlerts(rawData, timeZone, alertsActive);
+
+  const activeRange = timeframe === 'custom' ? customRange : null;
+  const comparison = useMemo(() => getComparisonShift(timeframe, activeRange), [timeframe, activeRange]);
+  const {
+    stats: dashboardStats,
+    chartData,
+    heatMaps: heatMapData,
+    completeness,
+    forecast,
+    forecastPoints,
+    drops,
+    quiet,
+    computing
+  } = useAnalytics(rawData, {
+    granularity,
+    filter: dataFilter,
+    timeZone,
+    range: activeRange,
+    comparison,
+    profile: intensity,
+    lookback,
+    recencyWeighted,
+    dropSize
+  });
+  const lookbackLabel = describeLookback(lookback, recencyWeighted);
+  const history = rawData?.history ?? [];
+  const firstBucket = history.length ? history[0].t : null;
+  const lastBucket = history.length ? history[history.length - 1].t : null;
+
+  if ((loading && !rawData) || (computing && !dashboardStats.updatedAt)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background-light dark:bg-background-dark">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
@@ -103,8 +215,16 @@ const App: React.FC = () => {
 
   if (error) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-background-light dark:bg-background-dark text-slate-500">
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background-light dark:bg-background-dark text-slate-500">
         <p>{error}</p>
+        {dataSource !== configuredSource && (
+          <button
+            onClick={() => setDataSource(configuredSource)}
+            className="text-sm font-bold text-primary hover:underline"
+          >
+            Back to live data
+          </button>
+        )}
       </div>
     );
   }
@@ -125,20 +245,38 @@ const App: React.FC = () => {
             {dashboardStats.updatedAt && (
             <div className="hidden sm:flex items-center gap-2 bg-white dark:bg-slate-800 px-4 py-1.5 rounded-full shadow-sm border border-slate-100 dark:border-slate-700">
                 <span className="relative flex h-2.5 w-2.5">
-                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
-                <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-primary"></span>
+                {dataSource.live && !isCached && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>}
+                <span className={`relative inline-flex rounded-full h-2.5 w-2.5 ${!dataSource.live ? 'bg-slate-400' : isCached ? 'bg-amber-500' : 'bg-primary'}`}></span>
                 </span>
                 <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">
-                Updated {dayjs(dashboardStats.updatedAt).fromNow()}
+                {!dataSource.live
+                  ? `Snapshot as of ${formatDateTime(dashboardStats.updatedAt.getTime(), timeZone)}`
+                  : isCached
+                  ? `Cached as of ${formatDateTime(dashboardStats.updatedAt.getTime(), timeZone)}`
+                  : `Updated ${dayjs(dashboardStats.updatedAt).fromNow()}`}
                 </span>
             </div>
             )}
+            {dashboardStats.updatedAt && (
+              <DataCompletenessIndicator
+                completeness={completeness}
+                updatedAt={dashboardStats.updatedAt}
+                live={dataSource.live}
+                timeZone={timeZone}
+              />
+            )}
+            <TimeZoneSelect value={timeZone} onChange={setTimeZone} />
+            <SourcePicker
+              source={dataSource}
+              onFileSelected={handleFile}
+              onReset={dataSource !== configuredSource ? () => setDataSource(configuredSource) : undefined}
+            />
             <ThemeToggle />
         </div>
       </header>
 
       <main className="w-full max-w-6xl px-6 flex flex-col gap-8">
-        <section className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <section className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
           <StatCard 
             title="Last Hour" 
             value={dashboardStats.lastHour} 
@@ -147,61 +285,143 @@ const App: React.FC = () => {
             iconColorClass="text-primary"
           />
           <StatCard 
-            title="Today (PST)" 
+            title={`Today (${timeZoneLabel})`} 
             value={dashboardStats.today} 
             subValue={`vs Median (${dashboardStats.todayMedian})`}
             trend={dashboardStats.todayGrowth}
-            trendLabel="vs Median"
+            trendLabel={`vs median by now (${dashboardStats.todayMedian})`}
+            secondaryTrend={dashboardStats.sameDayLastWeekGrowth}
+            secondaryTrendLabel={`vs last ${formatWeekday(Date.now(), timeZone)} (${dashboardStats.sameDayLastWeek})`}
+            forecast={forecast?.today}
             icon="trending_up" 
             iconColorClass="text-emerald-500"
           />
           <StatCard 
-            title="This Week (PST)" 
+            title={`This Week (${timeZoneLabel})`} 
             value={dashboardStats.thisWeek} 
             subValue={`vs Median (${dashboardStats.weekMedian})`}
             trend={dashboardStats.weekGrowth}
-            trendLabel="vs Median"
+            trendLabel={`vs median by now (${dashboardStats.weekMedian})`}
+            secondaryTrend={dashboardStats.lastWeekGrowth}
+            secondaryTrendLabel={`vs last week (${dashboardStats.lastWeekToDate})`}
+            forecast={forecast?.week}
             icon="calendar_month" 
             iconColorClass="text-rose-500"
           />
+          <StatCard
+            title="Quiet For"
+            value={quiet.current !== null ? formatDuration(quiet.current) : '–'}
+            subValue={quiet.current === 0
+              ? 'Drop under way'
+              : quiet.current !== null && !quiet.currentRecorded
+              ? 'Data missing since the last drop'
+              : quiet.percentile !== null
+              ? `Longer than ${quiet.percentile}% of quiet periods`
+              : 'Not enough history yet'}
+            detail={quiet.current && quiet.hourPercentile !== null
+              ? `Longer than ${quiet.hourPercentile}% at this hour · drops of ${dropSize}+ per 15m`
+              : `Drops of ${dropSize}+ per 15m`}
+            icon="hourglass_empty"
+            iconColorClass="text-amber-500"
+          />
         </section>
 
         <div className="flex justify-center w-full">
             <div className="bg-white dark:bg-slate-800 p-1.5 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700">
-                <SegmentedControl 
-                    options={[
-                        { value: 'all', label: 'All Items' },
-                        { value: 'zeroEtv', label: '0etv only' },
-                        { value: 'afa', label: 'AFA only' },
-                    ]}
-                    value={dataFilter}
-                    onChange={(val) => setDataFilter(val as DataFilter)}
-                    name="dataFilter"
-                    variant="flat"
-                />
+                <CategoryFilter value={dataFilter} onChange={(filter) => updateUrlState({ filter })} />
             </div>
         </div>
 
-        <PulseChart 
-          data={chartData} 
-          granularity={granularity}
-          onGranularityChange={setGranularity}
-          timeframe={timeframe} 
-          onTimeframeChange={setTimeframe} 
-          validGranularities={validGranularities}
+        <div ref={pulseChartRef} className="w-full scroll-mt-6">
+          <PulseChart 
+            data={chartData} 
+            forecast={forecastPoints}
+            granularity={granularity}
+            onGranularityChange={(g) => updateUrlState({ granularity: g })}
+            timeframe={timeframe} 
+            onTimeframeChange={handleTimeframeChange} 
+            validGranularities={validGranularities}
+            timeZone={timeZone}
+            range={activeRange}
+            onRangeChange={handleRangeChange}
+            scrollPercentage={scroll}
+            onScrollChange={(value) => updateUrlState({ scroll: value }, 'replace')}
+            filter={dataFilter}
+            sensitivity={sensitivity}
+            onSensitivityChange={(value) => updateUrlState({ sensitivity: value })}
+            overlays={overlays}
+            onOverlaysChange={(value) => updateUrlState({ overlays: value })}
+            profile={intensity}
+            firstBucket={firstBucket}
+            lastBucket={lastBucket}
+          />
+        </div>
+
+        <RecentDrops
+          events={drops}
+          lastBucket={lastBucket ?? 0}
+          quiet={quiet}
+          minItems={dropSize}
+          onMinItemsChange={(value) => updateUrlState({ dropSize: value }, 'replace')}
+          timeZone={timeZone}
+          filter={dataFilter}
         />
 
         <section className="flex flex-col gap-8 w-full">
-          <WeeklyActivity data={heatMapData.weekly} maxDaily={heatMapData.maxDaily} />
+          <LookbackControl
+            value={lookback}
+            onChange={(value) => updateUrlState({ lookback: value })}
+            recencyWeighted={recencyWeighted}
+            onRecencyWeightedChange={(value) => updateUrlState({ recencyWeighted: value })}
+            hasRange={!!activeRange}
+          />
+          <WeeklyActivity
+            data={heatMapData.weekly}
+            coverage={heatMapData.dailyCoverage}
+            maxDaily={heatMapData.maxDaily}
+            window={heatMapData.window}
+            lastBucket={lastBucket ?? 0}
+            lookbackLabel={lookbackLabel}
+            timeZone={timeZone}
+            filter={dataFilter}
+            onOpenDate={handleOpenDate}
+          />
           <HourlyIntensity 
             medianData={heatMapData.hourlyMedian} 
             meanData={heatMapData.hourlyMean}
+            cellStats={heatMapData.hourlyStats}
+            sampleWeeks={heatMapData.sampleWeeks}
+            onOpenDate={handleOpenDate}
+            lookbackLabel={lookbackLabel}
             maxMedian={heatMapData.maxHourlyMedian}
             maxMean={heatMapData.maxHourlyMean}
+            timeZone={timeZone}
+            mode={intensity}
+            onModeChange={(mode) => updateUrlState({ intensity: mode })}
+            filter={dataFilter}
+          />
+          <BestTimes
+            heatMaps={heatMapData}
+            timeZone={timeZone}
+            lookbackLabel={lookbackLabel}
+            filter={dataFilter}
+          />
+          <AlertsPanel
+            rules={alerts.rules}
+            history={alerts.history}
+            notificationState={alerts.notificationState}
+            onAddRule={alerts.addRule}
+            onUpdateRule={alerts.updateRule}
+            onRemoveRule={alerts.removeRule}
+            onRequestNotifications={alerts.requestNotifications}
+            active={alertsActive}
+            timeZone={timeZone}
           />
         </section>
       </main>
 
+      <AlertToasts toasts={alerts.toasts} onDismiss={alerts.dismissToast} />
+
       <footer className="w-full max-w-6xl px-6 py-12 flex flex-col items-center justify-center gap-6 text-center text-slate-500 dark:text-slate-400">
         <a 
           href="https://github.com/MarvNC/FreeVinesStats" 
@@ -0,0 +1,35 @@
+import React from 'react';
+import { AlertEvent } from '../utils/alerts';
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (key: string) => void;
+}
+
+// In-page fallback for alerts when browser notifications are unavailable or not permitted
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss }) => {
+  if (!toasts.length) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 flex flex-col gap-2 max-w-sm" role="status">
+      {toasts.map(toast => (
+        <div
+          key={toast.key}
+          className="flex items-start gap-3 bg-white dark:bg-slate-700 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-600 px-4 py-3"
+        >
+          <span className="material-symbols-outlined text-lg text-primary">notifications_active</span>
+          <p className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-200">{toast.message}</p>
+          <button
+            onClick={() => onDismiss(toast.key)}
+            className="flex items-center text-slate-400 hover:text-slate-700 dark:hover:text-white"
+            aria-label="Dismiss"
+          >
+            <span className="material-symbols-outlined text-lg">close</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertToasts;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import {
+  ALERT_METRIC_LABELS,
+  AlertEvent,
+  AlertMetric,
+  AlertRule,
+  AlertRuleDraft,
+  AlertWindow,
+  describeAlertRule
+} from '../utils/alerts';
+import { NotificationState } from '../hooks/useAlerts';
+import { formatDateTime } from '../utils/analytics';
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  notificationState: NotificationState;
+  onAddRule: (rule: AlertRuleDraft) => void;
+  onUpdateRule: (id: string, patch: Partial<AlertRule>) => void;
+  onRemoveRule: (id: string) => void;
+  onRequestNotifications: () => void;
+  active: boolean; // False for snapshots and cached data, which are never evaluated
+  timeZone: string;
+}
+
+const inputClass = 'bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 dark:text-slate-200 outline-none';
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  rules,
+  history,
+  notificationState,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  onRequestNotifications,
+  active,
+  timeZone
+}) => {
+  const [kind, setKind] = useState<AlertRule['kind']>('threshold');
+  const [metric, setMetric] = useState<AlertMetric>('lastChance');
+  const [alertWindow, setAlertWindow] = useState<AlertWindow>('15m');
+  const [value, setValue] = useState(20);
+
+  const handleAdd = () => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    onAddRule(kind === 'threshold'
+      ? { kind, enabled: true, metric, window: alertWindow, min: value }
+      : { kind, enabled: true, metric, window: alertWindow, percentile: Math.min(value, 99) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 p-6 flex flex-col gap-6 w-full">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-baseline gap-2">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Alerts</h3>
+          {!active && (
+            <span className="text-xs font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+              (Paused until live data loads)
+            </span>
+          )}
+        </div>
+        {notificationState === 'default' && (
+          <button onClick={onRequestNotifications} className="text-xs font-bold text-primary hover:underline">
+            Enable browser notifications
+          </button>
+        )}
+        {notificationState === 'denied' && (
+          <span className="text-xs font-medium text-slate-400">Notifications blocked, showing alerts in the page</span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center gap-3 text-sm">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => onUpdateRule(rule.id, { enabled: e.target.checked })}
+              aria-label="Enabled"
+            />
+            <span className={`flex-1 font-medium ${rule.enabled ? 'text-slate-700 dark:text-slate-200' : 'text-slate-400'}`}>
+              {describeAlertRule(rule)}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={rule.kind === 'percentile' ? 99 : undefined}
+              value={rule.kind === 'threshold' ? rule.min : rule.percentile}
+              onChange={(e) => {
+                const next = Number(e.target.value);
+                if (!Number.isFinite(next) || next <= 0) return;
+                onUpdateRule(rule.id, rule.kind === 'threshold' ? { min: next } : { percentile: Math.min(next, 99) });
+              }}
+              className={`${inputClass} w-16`}
+              aria-label={rule.kind === 'threshold' ? 'Minimum items' : 'Percentile'}
+            />
+            <button
+              onClick={() => onRemoveRule(rule.id)}
+              className="flex items-center text-slate-400 hover:text-rose-500 transition-colors"
+              aria-label="Delete rule"
+              title="Delete rule"
+            >
+              <span className="material-symbols-outlined text-lg">delete</span>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)} className={inputClass} aria-label="Category">
+          {(Object.keys(ALERT_METRIC_LABELS) as AlertMetric[]).map(m => (
+            <option key={m} value={m}>{ALERT_METRIC_LABELS[m]}</option>
+          ))}
+        </select>
+        <select value={alertWindow} onChange={(e) => setAlertWindow(e.target.value as AlertWindow)} className={inputClass} aria-label="Window">
+          <option value="15m">in one 15m bucket</option>
+          <option value="1h">in the last hour</option>
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => {
+            const next = e.target.value as AlertRule['kind'];
+            setKind(next);
+            setValue(next === 'threshold' ? 20 : 90);
+          }}
+          className={inputClass}
+          aria-label="Condition"
+        >
+          <option value="threshold">at least</option>
+          <option value="percentile">above percentile</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={value}
+          onChange={(e) => setValue(Number(e.target.value))}
+          className={`${inputClass} w-16`}
+          aria-label={kind === 'threshold' ? 'Minimum items' : 'Percentile'}
+        />
+        <button onClick={handleAdd} className="text-xs font-bold text-primary hover:underline">
+          Add rule
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">History</p>
+        {history.length === 0 ? (
+          <p className="text-sm text-slate-400">No alerts yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {history.map(event => (
+              <li key={event.key} className="flex gap-3 text-sm">
+                <span className="text-slate-400 tabular-nums shrink-0">{formatDateTime(event.firedAt, timeZone)}</span>
+                <span className="text-slate-700 dark:text-slate-200">{event.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
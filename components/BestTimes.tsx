@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { DataFilter, HeatMapData } from '../types';
+import { formatWeekday, getTimeZoneLabel, rankDropWindows } from '../utils/analytics';
+import { describeFilter } from '../utils/labels';
+import SegmentedControl from './SegmentedControl';
+
+interface BestTimesProps {
+  heatMaps: HeatMapData;
+  timeZone: string;
+  lookbackLabel: string;
+  filter: DataFilter;
+}
+
+type Horizon = 24 | 168;
+
+const LIST_LENGTH = 5;
+
+const inputClass = 'bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 dark:text-slate-200 outline-none';
+
+const formatHour = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
+
+const formatTimeUntil = (ms: number): string => {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  if (hours < 1) return 'within the hour';
+  return hours < 48 ? `in ${hours}h` : `in ${Math.round(hours / 24)}d`;
+};
+
+// Ranks the coming hours by the chance of a drop of at least `minItems`, from the hourly heat map's samples
+const BestTimes: React.FC<BestTimesProps> = ({ heatMaps, timeZone, lookbackLabel, filter }) => {
+  const [minItems, setMinItems] = useState(1);
+  const [horizon, setHorizon] = useState<Horizon>(24);
+
+  // Heat maps are replaced on every refresh, which also moves `now` along
+  const { windows, now } = useMemo(() => {
+    const at = Date.now();
+    return { windows: rankDropWindows(heatMaps, minItems, timeZone, horizon, at).slice(0, LIST_LENGTH), now: at };
+  }, [heatMaps, minItems, timeZone, horizon]);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 p-6 flex flex-col gap-6 w-full">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-baseline gap-2">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Best Time to Check ({getTimeZoneLabel(timeZone)})</h3>
+          <span className="text-xs font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+            ({describeFilter(filter)} · {lookbackLabel})
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-400">
+            At least
+            <input
+              type="number"
+              min={1}
+              value={minItems}
+              onChange={(e) => {
+                const next = Math.floor(Number(e.target.value));
+                if (Number.isFinite(next) && next >= 1) setMinItems(next);
+              }}
+              className={`${inputClass} w-16`}
+              aria-label="Minimum items"
+            />
+            items
+          </label>
+          <SegmentedControl
+            options={[
+              { value: 24, label: 'Next 24h' },
+              { value: 168, label: 'Next 7d' }
+            ]}
+            value={horizon}
+            onChange={(value) => setHorizon(value as Horizon)}
+            name="bestTimesHorizon"
+            variant="elevated"
+          />
+        </div>
+      </div>
+
+      {windows.length === 0 ? (
+        <p className="text-sm text-slate-400">Not enough history for these hours yet.</p>
+      ) : (
+        <ol className="flex flex-col gap-3">
+          {windows.map((slot, rank) => (
+            <li key={slot.start} className="grid grid-cols-[1.5rem_8rem_1fr_auto] items-center gap-3 text-sm">
+              <span className="text-xs font-bold text-slate-400 tabular-nums">{rank + 1}</span>
+              <span className="flex flex-col">
+                <span className="font-bold text-slate-700 dark:text-slate-200">
+                  {formatWeekday(slot.start, timeZone)} {formatHour(slot.hour)}–{formatHour((slot.hour + 1) % 24)}
+                </span>
+                <span className="text-[11px] font-medium text-slate-400">{formatTimeUntil(slot.start - now)}</span>
+              </span>
+              <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden" title={`${slot.samples} weeks sampled`}>
+                <div className="h-full rounded-full bg-primary" style={{ width: `${slot.probability * 100}%` }} />
+              </div>
+              <span className="text-right tabular-nums">
+                <span className="font-extrabold text-primary">{Math.round(slot.probability * 100)}%</span>
+                <span className="text-xs font-medium text-slate-400"> · ~{slot.expected.toLocaleString()} expected</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default BestTimes;
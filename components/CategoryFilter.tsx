@@ -0,0 +1,54 @@
+import React from 'react';
+import { Category, DataFilter } from '../types';
+import { ALL_CATEGORIES } from '../utils/analytics';
+import { CATEGORY_LABELS } from '../utils/labels';
+
+interface CategoryFilterProps {
+  value: DataFilter;
+  onChange: (value: DataFilter) => void;
+}
+
+const CATEGORY_COLORS: Record<Category, string> = {
+  ai: '#3b82f6',
+  lastChance: '#f97316',
+  zeroEtv: '#ef4444'
+};
+
+// Zero-ETV items are also AI or AFA items, so they are only counted when selected on their own
+const OVERLAP_HINT = 'Zero ETV items are also AI or AFA items. Totals count Zero ETV only when it is the sole selection.';
+
+const CategoryFilter: React.FC<CategoryFilterProps> = ({ value, onChange }) => {
+  const toggle = (category: Category) => {
+    const next = value.includes(category)
+      ? value.filter(c => c !== category)
+      : ALL_CATEGORIES.filter(c => c === category || value.includes(c));
+    if (next.length) onChange(next);
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 p-1.5" role="group" aria-label="Categories" title={OVERLAP_HINT}>
+      {ALL_CATEGORIES.map(category => {
+        const selected = value.includes(category);
+        const locked = selected && value.length === 1; // At least one category stays selected
+        return (
+          <button
+            key={category}
+            onClick={() => toggle(category)}
+            disabled={locked}
+            aria-pressed={selected}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold uppercase whitespace-nowrap transition-all ${
+              selected
+                ? 'bg-primary/10 text-primary dark:bg-primary/20 dark:text-blue-300'
+                : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-300'
+            } ${locked ? 'cursor-default' : ''}`}
+          >
+            <span className={`size-2 rounded-full ${selected ? '' : 'opacity-40'}`} style={{ backgroundColor: CATEGORY_COLORS[category] }} />
+            {CATEGORY_LABELS[category]}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CategoryFilter;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { DataCompleteness } from '../types';
+import { formatDateTime } from '../utils/analytics';
+import { formatDuration } from '../utils/labels';
+
+interface DataCompletenessIndicatorProps {
+  completeness: DataCompleteness;
+  updatedAt: Date | null;
+  live: boolean; // Snapshots are old on purpose and are never flagged as stale
+  timeZone: string;
+}
+
+// Live data normally updates every 15 minutes
+const STALE_AFTER_MS = 60 * 60 * 1000;
+const MAX_LISTED_GAPS = 5;
+
+const DataCompletenessIndicator: React.FC<DataCompletenessIndicatorProps> = ({ completeness, updatedAt, live, timeZone }) => {
+  const stale = live && updatedAt !== null && Date.now() - updatedAt.getTime() > STALE_AFTER_MS;
+  const complete = completeness.missingBuckets === 0;
+  const percent = Math.floor(completeness.coverage * 1000) / 10;
+
+  const details = [
+    complete
+      ? 'Every 15m bucket of the last 7 days was recorded.'
+      : `${completeness.missingBuckets} of the last 7 days' 15m buckets were not recorded. They're shaded on the chart and left out of medians.`,
+    ...completeness.gaps.slice(0, MAX_LISTED_GAPS).map(gap =>
+      `• ${formatDateTime(gap.start, timeZone)} – ${formatDateTime(gap.end, timeZone)} (${formatDuration(gap.end - gap.start)})`
+    ),
+    ...(completeness.gaps.length > MAX_LISTED_GAPS ? [`…and ${completeness.gaps.length - MAX_LISTED_GAPS} more`] : []),
+    ...(stale ? [`No update since ${formatDateTime(updatedAt.getTime(), timeZone)}; the scraper may be down.`] : [])
+  ].join('\n');
+
+  return (
+    <div
+      className={`hidden sm:flex items-center gap-1.5 px-3 py-1.5 rounded-full shadow-sm border text-xs font-bold uppercase tracking-wide ${
+        stale || !complete
+          ? 'bg-amber-50 dark:bg-amber-500/10 border-amber-200 dark:border-amber-500/30 text-amber-600 dark:text-amber-400'
+          : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400'
+      }`}
+      title={details}
+    >
+      <span className="material-symbols-outlined text-base">{stale || !complete ? 'warning' : 'task_alt'}</span>
+      {stale ? `Stale for ${formatDuration(Date.now() - updatedAt!.getTime())}` : `${percent}% complete`}
+    </div>
+  );
+};
+
+export default DataCompletenessIndicator;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface ExportMenuItem {
+  label: string;
+  onSelect: () => void | Promise<void>; // A rejection is shown under the menu button
+}
+
+interface ExportMenuProps {
+  items: ExportMenuItem[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ items }) => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleSelect = async (item: ExportMenuItem) => {
+    setOpen(false);
+    setError(null);
+    try {
+      await item.onSelect();
+    } catch (err) {
+      setError(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 dark:hover:text-slate-200 dark:hover:bg-slate-700 transition-colors"
+        aria-label="Export"
+        title="Export"
+      >
+        <span className="material-symbols-outlined text-lg">download</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-50 min-w-[11rem] py-1 bg-white dark:bg-slate-700 rounded-xl shadow-xl border border-slate-100 dark:border-slate-600">
+          {items.map(item => (
+            <button
+              key={item.label}
+              onClick={() => handleSelect(item)}
+              className="block w-full text-left px-3 py-1.5 text-xs font-bold text-slate-600 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-600"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && !open && (
+        <div
+          role="alert"
+          className="absolute right-0 top-full mt-1 z-50 w-56 flex items-start gap-2 px-3 py-2 bg-white dark:bg-slate-700 rounded-xl shadow-xl border border-rose-200 dark:border-rose-900 text-xs font-bold text-rose-600 dark:text-rose-300"
+        >
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="flex items-center text-slate-400 hover:text-slate-700 dark:hover:text-white" aria-label="Dismiss">
+            <span className="material-symbols-outlined text-sm">close</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
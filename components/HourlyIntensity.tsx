@@ -1,22 +1,45 @@
 import React, { useState } from 'react';
-import { getHeatColor } from '../utils/analytics';
+import { getHeatColor, getTimeZoneLabel } from '../utils/analytics';
 import SegmentedControl from './SegmentedControl';
+import ExportMenu from './ExportMenu';
+import HourlySamples from './HourlySamples';
+import { DataFilter, HourlyCellStats, IntensityMode } from '../types';
+import { downloadFile, exportHourlyMatrix } from '../utils/export';
+import { ImageFormat, downloadImage, renderHeatMapSvg } from '../utils/imageExport';
+import { describeFilter } from '../utils/labels';
+import useDarkMode from '../hooks/useDarkMode';
 
 interface HourlyIntensityProps {
   medianData: number[][]; // 7x24
   meanData: number[][];   // 7x24
+  cellStats: HourlyCellStats[][]; // 7x24
+  lookbackLabel: string;
+  sampleWeeks: string[];
+  onOpenDate: (dateKey: string) => void; // Drill down into one sample's day on the pulse chart
   maxMedian: number;
   maxMean: number;
+  timeZone: string;
+  mode: IntensityMode;
+  onModeChange: (mode: IntensityMode) => void;
+  filter: DataFilter;
 }
 
 const HourlyIntensity: React.FC<HourlyIntensityProps> = ({ 
   medianData, 
   meanData, 
+  cellStats,
+  lookbackLabel,
+  sampleWeeks,
+  onOpenDate,
   maxMedian, 
-  maxMean 
+  maxMean,
+  timeZone,
+  mode,
+  onModeChange,
+  filter
 }) => {
-  const [hoveredCell, setHoveredCell] = useState<{day: string, hour: number, value: number, x: number, y: number} | null>(null);
-  const [mode, setMode] = useState<'median' | 'mean'>('median');
+  const [resolvedTheme] = useDarkMode();
+  const [hoveredCell, setHoveredCell] = useState<{day: string, dayIndex: number, hour: number, x: number, y: number} | null>(null);
   
   const daysOfWeek = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
   const hours = Array.from({ length: 24 }, (_, i) => i);
@@ -25,12 +48,31 @@ const HourlyIntensity: React.FC<HourlyIntensityProps> = ({
   const currentData = mode === 'median' ? medianData : meanData;
   const currentMax = mode === 'median' ? maxMedian : maxMean;
 
-  const handleMouseEnter = (e: React.MouseEvent, day: string, hour: number, value: number) => {
+  const [selectedCell, setSelectedCell] = useState<{ dayIndex: number, hour: number } | null>(null);
+  const selectedStats = selectedCell ? cellStats[selectedCell.dayIndex]?.[selectedCell.hour] : undefined;
+  const hoveredStats = hoveredCell ? cellStats[hoveredCell.dayIndex]?.[hoveredCell.hour] : undefined;
+
+  const exportImage = (format: ImageFormat) => {
+    const image = renderHeatMapSvg({
+      rowLabels: daysOfWeek,
+      columnLabels: hours.map(h => (h % 4 === 0 || h === 23 ? String(h).padStart(2, '0') : '')),
+      values: daysOfWeek.map((_, dayIndex) => hours.map(hour => currentData[dayIndex]?.[hour] ?? 0)),
+      max: currentMax
+    }, {
+      title: `Hourly Intensity (${mode === 'median' ? 'Median' : 'Mean'})`,
+      dateRange: lookbackLabel,
+      filter: describeFilter(filter),
+      timeZone
+    }, resolvedTheme);
+    return downloadImage(image, `hourly-${mode}`, format);
+  };
+
+  const handleMouseEnter = (e: React.MouseEvent, day: string, dayIndex: number, hour: number) => {
     const rect = e.currentTarget.getBoundingClientRect();
     setHoveredCell({
       day,
+      dayIndex,
       hour,
-      value,
       x: rect.left + rect.width / 2,
       y: rect.top - 10
     });
@@ -40,23 +82,35 @@ const HourlyIntensity: React.FC<HourlyIntensityProps> = ({
     <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 p-6 flex flex-col w-full overflow-visible relative">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <div className="flex items-baseline gap-2">
-            <h3 className="text-lg font-bold text-slate-900 dark:text-white">Hourly Intensity (Local)</h3>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">Hourly Intensity ({getTimeZoneLabel(timeZone)})</h3>
             <span className="text-xs font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
-              ({mode === 'median' ? 'Median' : 'Mean'})
+              ({mode === 'median' ? 'Median' : 'Mean'} · {lookbackLabel})
             </span>
         </div>
         
-        {/* Toggle */}
-        <SegmentedControl 
-          options={[
-            { value: 'median', label: 'Median' },
-            { value: 'mean', label: 'Mean' }
-          ]}
-          value={mode}
-          onChange={(val) => setMode(val as 'median' | 'mean')}
-          name="intensityMode"
-          variant="elevated"
-        />
+        <div className="flex items-center gap-2">
+          {/* Toggle */}
+          <SegmentedControl 
+            options={[
+              { value: 'median', label: 'Median' },
+              { value: 'mean', label: 'Mean' }
+            ]}
+            value={mode}
+            onChange={(val) => onModeChange(val as IntensityMode)}
+            name="intensityMode"
+            variant="elevated"
+          />
+          <ExportMenu
+            items={[
+              { label: 'Median matrix (CSV)', onSelect: () => downloadFile(exportHourlyMatrix(medianData, 'median', timeZone, 'csv')) },
+              { label: 'Median matrix (JSON)', onSelect: () => downloadFile(exportHourlyMatrix(medianData, 'median', timeZone, 'json')) },
+              { label: 'Mean matrix (CSV)', onSelect: () => downloadFile(exportHourlyMatrix(meanData, 'mean', timeZone, 'csv')) },
+              { label: 'Mean matrix (JSON)', onSelect: () => downloadFile(exportHourlyMatrix(meanData, 'mean', timeZone, 'json')) },
+              { label: 'Heat map image (SVG)', onSelect: () => exportImage('svg') },
+              { label: 'Heat map image (PNG)', onSelect: () => exportImage('png') }
+            ]}
+          />
+        </div>
       </div>
       
       <div className="w-full overflow-x-auto pb-2 scrollbar-hide">
@@ -82,9 +136,14 @@ const HourlyIntensity: React.FC<HourlyIntensityProps> = ({
                         return (
                             <div 
                                 key={hour} 
-                                onMouseEnter={(e) => handleMouseEnter(e, dayName, hour, value)}
+                                onMouseEnter={(e) => handleMouseEnter(e, dayName, dayIndex, hour)}
                                 onMouseLeave={() => setHoveredCell(null)}
-                                className={`aspect-square rounded-[4px] ${colorClass} transition-colors duration-200 cursor-crosshair hover:opacity-80`}
+                                onClick={() => setSelectedCell(
+                                    selectedCell?.dayIndex === dayIndex && selectedCell.hour === hour ? null : { dayIndex, hour }
+                                )}
+                                className={`aspect-square rounded-[4px] ${colorClass} transition-colors duration-200 cursor-pointer hover:opacity-80 ${
+                                    selectedCell?.dayIndex === dayIndex && selectedCell.hour === hour ? 'ring-2 ring-primary' : ''
+                                }`}
                             />
                         );
                     })}
@@ -93,6 +152,19 @@ const HourlyIntensity: React.FC<HourlyIntensityProps> = ({
         </div>
       </div>
 
+      {selectedCell && selectedStats && (
+        <HourlySamples
+          dayName={daysOfWeek[selectedCell.dayIndex]}
+          dayIndex={selectedCell.dayIndex}
+          hour={selectedCell.hour}
+          weekly={selectedStats.weekly}
+          sampleWeeks={sampleWeeks}
+          median={medianData[selectedCell.dayIndex][selectedCell.hour]}
+          onOpenDate={onOpenDate}
+          onClose={() => setSelectedCell(null)}
+        />
+      )}
+
       {/* Floating Tooltip */}
       {hoveredCell && (
         <div 
@@ -100,7 +172,27 @@ const HourlyIntensity: React.FC<HourlyIntensityProps> = ({
           style={{ left: hoveredCell.x, top: hoveredCell.y }}
         >
           <div className="opacity-70 text-[10px] uppercase mb-0.5 tracking-tight">{hoveredCell.day} @ {String(hoveredCell.hour).padStart(2, '0')}:00</div>
-          <div>{hoveredCell.value.toLocaleString()} <span className="font-medium opacity-80">{mode} drops</span></div>
+          <div>
+            {(currentData[hoveredCell.dayIndex]?.[hoveredCell.hour] ?? 0).toLocaleString()}{' '}
+            <span className="font-medium opacity-80">{mode} drops</span>
+          </div>
+          {hoveredStats && (
+            <div className="mt-1 grid grid-cols-[auto_auto] gap-x-3 text-[11px] font-medium">
+              <span className="opacity-70">Median / mean</span>
+              <span className="text-right tabular-nums">
+                {medianData[hoveredCell.dayIndex][hoveredCell.hour]} / {meanData[hoveredCell.dayIndex][hoveredCell.hour]}
+              </span>
+              <span className="opacity-70">Middle half (p25–p75)</span>
+              <span className="text-right tabular-nums">{hoveredStats.p25}–{hoveredStats.p75}</span>
+              <span className="opacity-70">Usual range (p10–p90)</span>
+              <span className="text-right tabular-nums">{hoveredStats.p10}–{hoveredStats.p90}</span>
+              <span className="opacity-70">Max</span>
+              <span className="text-right tabular-nums">{hoveredStats.max.toLocaleString()}</span>
+              <span className="opacity-70">Weeks with drops</span>
+              <span className="text-right tabular-nums">{Math.round(hoveredStats.activeShare * 100)}%</span>
+              <span className="opacity-70 col-span-2 mt-0.5">{hoveredStats.samples} weeks sampled · click for the samples</span>
+            </div>
+          )}
           <div className="absolute left-1/2 bottom-0 w-2 h-2 bg-inherit transform -translate-x-1/2 translate-y-1/2 rotate-45" />
         </div>
       )}
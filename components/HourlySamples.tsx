@@ -0,0 +1,89 @@
+import React from 'react';
+
+interface HourlySamplesProps {
+  dayName: string;
+  dayIndex: number;      // Monday first
+  hour: number;
+  weekly: (number | null)[]; // One sum per week, oldest first; null where data is missing
+  sampleWeeks: string[]; // Monday of each sample, YYYY-MM-DD
+  median: number;
+  onOpenDate: (dateKey: string) => void;
+  onClose: () => void;
+}
+
+const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+// The weekly sums behind one hourly heat map cell; each bar opens its day on the pulse chart
+const HourlySamples: React.FC<HourlySamplesProps> = ({
+  dayName,
+  dayIndex,
+  hour,
+  weekly,
+  sampleWeeks,
+  median,
+  onOpenDate,
+  onClose
+}) => {
+  const max = Math.max(...weekly.filter((value): value is number => value !== null), 1);
+  const sampled = weekly.filter(value => value !== null).length;
+  const hourLabel = `${String(hour).padStart(2, '0')}:00`;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-700 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">
+          {dayName} @ {hourLabel} · {sampled} weekly samples
+          {sampled < weekly.length && ` (${weekly.length - sampled} left out for missing data)`}
+        </p>
+        <button
+          onClick={onClose}
+          className="flex items-center text-slate-400 hover:text-slate-700 dark:hover:text-white"
+          aria-label="Close samples"
+        >
+          <span className="material-symbols-outlined text-lg">close</span>
+        </button>
+      </div>
+
+      <div className="relative h-24 flex items-end gap-[2px]">
+        <div
+          className="absolute inset-x-0 border-t border-dashed border-emerald-500 pointer-events-none"
+          style={{ bottom: `${(median / max) * 100}%` }}
+          title={`Median ${median}`}
+        />
+        {weekly.map((value, k) => {
+          const dateKey = addDays(sampleWeeks[k], dayIndex);
+          if (value === null) {
+            return (
+              <div
+                key={dateKey}
+                title={`${dateKey} ${hourLabel}: no data recorded`}
+                className="flex-1 min-w-[3px] h-full rounded-t-sm border border-dashed border-slate-200 dark:border-slate-600"
+              />
+            );
+          }
+          return (
+            <button
+              key={dateKey}
+              onClick={() => onOpenDate(dateKey)}
+              title={`${dateKey} ${hourLabel}: ${value.toLocaleString()} items`}
+              aria-label={`${dateKey}: ${value} items`}
+              className="flex-1 min-w-[3px] rounded-t-sm bg-primary/70 hover:bg-primary transition-colors"
+              style={{ height: `${Math.max((value / max) * 100, 2)}%` }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between text-[10px] font-bold text-slate-400">
+        <span>{sampleWeeks.length ? addDays(sampleWeeks[0], dayIndex) : ''}</span>
+        <span className="text-emerald-500">Median {median}</span>
+        <span>{sampleWeeks.length ? addDays(sampleWeeks[sampleWeeks.length - 1], dayIndex) : ''}</span>
+      </div>
+    </div>
+  );
+};
+
+export default HourlySamples;
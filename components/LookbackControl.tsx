@@ -0,0 +1,47 @@
+import React from 'react';
+import { HeatMapLookback } from '../types';
+import { LOOKBACK_LABELS } from '../utils/labels';
+import SegmentedControl from './SegmentedControl';
+
+interface LookbackControlProps {
+  value: HeatMapLookback;
+  onChange: (value: HeatMapLookback) => void;
+  recencyWeighted: boolean;
+  onRecencyWeightedChange: (value: boolean) => void;
+  hasRange: boolean; // 'Chart range' needs a custom range selected on the chart
+}
+
+// Shared by both heat maps, which are always computed over the same weeks
+const LookbackControl: React.FC<LookbackControlProps> = ({
+  value,
+  onChange,
+  recencyWeighted,
+  onRecencyWeightedChange,
+  hasRange
+}) => (
+  <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+    <div className="flex items-center gap-3">
+      <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Heat map lookback</span>
+      <SegmentedControl
+        options={([4, 12, 26, 52, 'range'] as HeatMapLookback[]).map(lookback => ({
+          value: lookback,
+          label: lookback === 'range' ? LOOKBACK_LABELS.range : `${lookback}w`,
+          disabled: lookback === 'range' && !hasRange
+        }))}
+        value={value}
+        onChange={onChange}
+        name="heatMapLookback"
+        variant="elevated"
+      />
+    </div>
+    <label
+      className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-400 cursor-pointer select-none"
+      title="Each week counts half as much as one a quarter of the window newer"
+    >
+      <input type="checkbox" checked={recencyWeighted} onChange={(e) => onRecencyWeightedChange(e.target.checked)} />
+      Weight recent weeks
+    </label>
+  </div>
+);
+
+export default LookbackControl;
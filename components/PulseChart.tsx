@@ -1,42 +1,136 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import {
-  BarChart, 
-  Bar, 
+  ComposedChart,
+  Bar,
+  Line,
+  Area,
   XAxis, 
   YAxis,
   CartesianGrid,
   Tooltip, 
   ResponsiveContainer,
-  ReferenceLine
+  ReferenceLine,
+  ReferenceArea,
+  ReferenceDot,
+  MouseHandlerDataParam
 } from 'recharts';
-import { ChartDataPoint, Timeframe, Granularity } from '../types';
 import {
+  AnomalySensitivity,
+  ChartDataPoint,
+  ChartOverlay,
+  DataFilter,
+  DateRange,
+  ForecastPoint,
+  IntensityMode,
+  Timeframe,
+  Granularity
+} from '../types';
+import {
+  ANOMALY_THRESHOLDS,
   formatChartTickLabel,
-  getPstMidnightTimestamps,
-  getPstMonthStartTimestamps,
-  getPstWeekStartTimestamps
+  formatDateKey,
+  formatDateTime,
+  getDateKeyStart,
+  getMidnightTimestamps,
+  getMonthStartTimestamps,
+  getTimeZoneLabel,
+  getWeekStartTimestamps,
+  summarizeChartPoints
 } from '../utils/analytics';
 import SegmentedControl, { Option } from './SegmentedControl';
+import ExportMenu from './ExportMenu';
+import RangeSummary from './RangeSummary';
+import { downloadFile, exportChartSeries } from '../utils/export';
+import { ImageFormat, downloadImage, renderChartSvg } from '../utils/imageExport';
+import { describeFilter } from '../utils/labels';
 import useDarkMode from '../hooks/useDarkMode';
 
 interface PulseChartProps {
   data: ChartDataPoint[];
+  forecast: ForecastPoint[];
   granularity: Granularity;
   onGranularityChange: (g: Granularity) => void;
   timeframe: Timeframe;
   onTimeframeChange: (tf: Timeframe) => void;
   validGranularities: Granularity[];
+  timeZone: string;
+  range: DateRange | null;
+  onRangeChange: (range: DateRange | null) => void;
+  scrollPercentage: number;
+  onScrollChange: (value: number) => void;
+  filter: DataFilter;
+  sensitivity: AnomalySensitivity;
+  onSensitivityChange: (value: AnomalySensitivity) => void;
+  overlays: ChartOverlay[];
+  onOverlaysChange: (value: ChartOverlay[]) => void;
+  profile: IntensityMode; // Statistic behind the baseline overlay
+  firstBucket: number | null; // `t` of the oldest and newest buckets in the full history, bounding the date pickers
+  lastBucket: number | null;
 }
 
+const SPIKE_COLOR = '#a855f7'; // purple-500, distinct from the stacked categories
+const FORECAST_COLOR = '#64748b'; // slate-500
+const PREVIOUS_COLOR = '#94a3b8'; // slate-400
+const BASELINE_COLOR = '#10b981'; // emerald-500
+const GAP_COLOR = '#94a3b8'; // slate-400, hatched over buckets the scraper didn't record
+
+const PREVIOUS_LABELS: Record<Timeframe, string> = {
+  '1d': 'Yesterday',
+  '7d': 'Last week',
+  '1m': 'Last month',
+  '3m': 'Previous 3 months',
+  '1y': 'Last year',
+  custom: 'Previous period'
+};
+
+const formatDelta = (current: number, reference: number): string => {
+  const delta = Math.round((current - reference) * 10) / 10;
+  return `${delta >= 0 ? '+' : ''}${delta.toLocaleString()}`;
+};
+
+// Forecast rows past the last bucket carry no bars, only the projected line and band
+type ChartRow = ChartDataPoint & {
+  forecast?: number;
+  forecastBand?: [number, number];
+  forecastOnly?: boolean;
+};
+
+const sensitivityOptions: Option<AnomalySensitivity>[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Med' },
+  { value: 'high', label: 'High' }
+];
+
+const nextDateKey = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
 const PulseChart: React.FC<PulseChartProps> = ({ 
   data, 
+  forecast,
   granularity, 
   onGranularityChange,
   timeframe,
   onTimeframeChange,
-  validGranularities
+  validGranularities,
+  timeZone,
+  range,
+  onRangeChange,
+  scrollPercentage,
+  onScrollChange,
+  filter,
+  sensitivity,
+  onSensitivityChange,
+  overlays,
+  onOverlaysChange,
+  profile,
+  firstBucket,
+  lastBucket
 }) => {
-  const [scrollPercentage, setScrollPercentage] = useState(100);
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
   const [resolvedTheme] = useDarkMode();
   const isDark = resolvedTheme === 'dark';
 
@@ -51,9 +145,10 @@ const PulseChart: React.FC<PulseChartProps> = ({
       case '1m': return 30 * 24 * 60 * 60 * 1000;
       case '3m': return 90 * 24 * 60 * 60 * 1000;
       case '1y': return 365 * 24 * 60 * 60 * 1000;
+      case 'custom': return range ? range.end - range.start : 24 * 60 * 60 * 1000;
       default: return 24 * 60 * 60 * 1000;
     }
-  }, [timeframe]);
+  }, [timeframe, range]);
 
   const intervalMs = useMemo(() => {
     switch (granularity) {
@@ -66,6 +161,8 @@ const PulseChart: React.FC<PulseChartProps> = ({
 
   const visibleData = useMemo(() => {
     if (data.length === 0) return [];
+    // Custom ranges are already cut to size by processChartData
+    if (range) return data;
     const firstTime = data[0].date;
     const lastTime = data[data.length - 1].date;
     const totalDuration = lastTime - firstTime;
@@ -84,75 +181,223 @@ const PulseChart: React.FC<PulseChartProps> = ({
     const currentEndTime = alignedStartTime + windowDuration;
 
     return data.filter(d => d.date >= alignedStartTime && d.date <= currentEndTime);
-  }, [data, windowDuration, scrollPercentage, intervalMs]);
+  }, [data, range, windowDuration, scrollPercentage, intervalMs]);
+
+  const summary = useMemo(() => summarizeChartPoints(visibleData), [visibleData]);
+
+  // The projection is only drawn while the newest bucket is on screen
+  const chartRows = useMemo((): ChartRow[] => {
+    const lastVisible = visibleData[visibleData.length - 1];
+    if (range || !forecast.length || !lastVisible || lastVisible.date !== data[data.length - 1].date) {
+      return visibleData;
+    }
+
+    const rows: ChartRow[] = [...visibleData];
+    for (const point of forecast) {
+      const projection = { forecast: point.expected, forecastBand: [point.low, point.high] as [number, number] };
+      const existing = rows.findIndex(row => row.date === point.date);
+      if (existing >= 0) {
+        rows[existing] = { ...rows[existing], ...projection };
+      } else if (point.date > lastVisible.date) {
+        rows.push({
+          date: point.date,
+          ai: 0,
+          lastChance: 0,
+          zeroEtv: 0,
+          total: 0,
+          label: point.label,
+          fullDate: point.fullDate,
+          anomalyScore: null,
+          previous: null,
+          baseline: null,
+          coverage: null,
+          forecastOnly: true,
+          ...projection
+        });
+      }
+    }
+    return rows;
+  }, [visibleData, data, forecast, range]);
 
   const xDomain = useMemo(() => {
-    if (visibleData.length === 0) return ['dataMin', 'dataMax'] as const;
+    if (chartRows.length === 0) return ['dataMin', 'dataMax'] as const;
     const halfStep = intervalMs / 2;
-    const timestamps = visibleData.map(point => point.date);
+    const timestamps = chartRows.map(point => point.date);
     const min = Math.min(...timestamps);
     const max = Math.max(...timestamps);
     return [min - halfStep, max + halfStep] as [number, number];
-  }, [visibleData, intervalMs]);
+  }, [chartRows, intervalMs]);
 
-  const pstMidnightLines = useMemo(() => {
+  // Keeps the empty forecast rows and fully missing buckets from getting minimum-height bars
+  const barMinPointSize = (_value: number | null | undefined, index: number) => {
+    const row = chartRows[index];
+    return row?.forecastOnly || row?.coverage === 0 ? 0 : 2;
+  };
+
+  // Runs of buckets with missing data, shaded so they don't read as quiet periods
+  const gapRuns = useMemo(() => {
+    const runs: { start: number; end: number }[] = [];
+    for (const row of chartRows) {
+      if (row.coverage === null || row.coverage >= 1) continue;
+      const last = runs[runs.length - 1];
+      if (last && row.date - last.end <= intervalMs * 1.5) {
+        last.end = row.date;
+      } else {
+        runs.push({ start: row.date, end: row.date });
+      }
+    }
+    return runs;
+  }, [chartRows, intervalMs]);
+
+  const timeZoneLabel = getTimeZoneLabel(timeZone);
+  const showPrevious = overlays.includes('previous');
+  const showBaseline = overlays.includes('baseline');
+  const previousLabel = PREVIOUS_LABELS[timeframe];
+  const baselineLabel = `Typical (${profile})`;
+
+  const toggleOverlay = (overlay: ChartOverlay) => {
+    onOverlaysChange(overlays.includes(overlay) ? overlays.filter(o => o !== overlay) : [...overlays, overlay]);
+  };
+  const spikeThreshold = ANOMALY_THRESHOLDS[sensitivity];
+  const isSpike = (point: ChartDataPoint) => point.anomalyScore !== null && point.anomalyScore >= spikeThreshold;
+
+  const spikes = visibleData.filter(isSpike);
+
+  const midnightLines = useMemo(() => {
     if (granularity !== '1h' && granularity !== '15m') return [];
     if (visibleData.length === 0) return [];
     const start = visibleData[0].date;
     const end = visibleData[visibleData.length - 1].date;
-    return getPstMidnightTimestamps(start, end);
-  }, [granularity, visibleData]);
+    return getMidnightTimestamps(start, end, timeZone);
+  }, [granularity, visibleData, timeZone]);
 
-  const showWeekMarkers = granularity === '1d' && (timeframe === '1m' || timeframe === '3m' || timeframe === '1y');
-  const showMonthMarkers = granularity === '1d' && (timeframe === '3m' || timeframe === '1y');
-  const weekMarkerOpacity = timeframe === '1m' ? 0.65 : 0.3;
+  const showWeekMarkers = granularity === '1d' && windowDuration >= 30 * 24 * 60 * 60 * 1000;
+  const showMonthMarkers = granularity === '1d' && windowDuration >= 90 * 24 * 60 * 60 * 1000;
+  const weekMarkerOpacity = showMonthMarkers ? 0.3 : 0.65;
   const dayMarkerStyle = {
     strokeDasharray: '4 4',
     strokeOpacity: 0.9,
     strokeWidth: 1.5
   };
 
-  const pstWeekStartLines = useMemo(() => {
+  const weekStartLines = useMemo(() => {
     if (!showWeekMarkers) return [];
     if (visibleData.length === 0) return [];
     const start = visibleData[0].date;
     const end = visibleData[visibleData.length - 1].date;
-    return getPstWeekStartTimestamps(start, end);
-  }, [showWeekMarkers, visibleData]);
+    return getWeekStartTimestamps(start, end, timeZone);
+  }, [showWeekMarkers, visibleData, timeZone]);
 
-  const pstMonthStartLines = useMemo(() => {
+  const monthStartLines = useMemo(() => {
     if (!showMonthMarkers) return [];
     if (visibleData.length === 0) return [];
     const start = visibleData[0].date;
     const end = visibleData[visibleData.length - 1].date;
-    return getPstMonthStartTimestamps(start, end);
-  }, [showMonthMarkers, visibleData]);
+    return getMonthStartTimestamps(start, end, timeZone);
+  }, [showMonthMarkers, visibleData, timeZone]);
+
+  // Date pickers show the custom range, or the visible window when a preset is active
+  const startDateKey = range
+    ? formatDateKey(range.start, timeZone)
+    : visibleData.length ? formatDateKey(visibleData[0].date, timeZone) : '';
+  const endDateKey = range
+    ? formatDateKey(range.end - 1, timeZone)
+    : visibleData.length ? formatDateKey(visibleData[visibleData.length - 1].date, timeZone) : '';
+  // Bounded by the full history, not `data`, which a custom range has already cut down
+  const minDateKey = firstBucket !== null ? formatDateKey(firstBucket, timeZone) : undefined;
+  const maxDateKey = lastBucket !== null ? formatDateKey(lastBucket, timeZone) : undefined;
+
+  const applyDateKeys = (startKey: string, endKey: string) => {
+    if (!startKey || !endKey) return;
+    const [fromKey, toKey] = startKey <= endKey ? [startKey, endKey] : [endKey, startKey];
+    onRangeChange({
+      start: getDateKeyStart(fromKey, timeZone),
+      end: getDateKeyStart(nextDateKey(toKey), timeZone)
+    });
+  };
+
+  // Drag-to-zoom: the selection snaps to whole buckets
+  const getPointIndex = (state: MouseHandlerDataParam): number | null => {
+    const index = Number(state.activeIndex);
+    return Number.isInteger(index) && visibleData[index] ? index : null;
+  };
+
+  const handleMouseDown = (state: MouseHandlerDataParam) => {
+    const index = getPointIndex(state);
+    if (index === null) return;
+    setDragStart(index);
+    setDragEnd(index);
+  };
+
+  const handleMouseMove = (state: MouseHandlerDataParam) => {
+    if (dragStart === null) return;
+    const index = getPointIndex(state);
+    if (index !== null) setDragEnd(index);
+  };
+
+  const handleMouseUp = () => {
+    if (dragStart !== null && dragEnd !== null && dragStart !== dragEnd) {
+      const from = Math.min(dragStart, dragEnd);
+      const to = Math.max(dragStart, dragEnd);
+      const last = visibleData[to];
+      onRangeChange({
+        start: visibleData[from].date,
+        end: visibleData[to + 1]?.date ?? last.date + intervalMs
+      });
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const exportImage = (format: ImageFormat) => {
+    const surface = chartContainerRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!surface || visibleData.length === 0) return;
+    const formatBucket = granularity === '1d' ? formatDateKey : formatDateTime;
+    const image = renderChartSvg(surface, {
+      title: 'The Pulse',
+      dateRange: `${formatBucket(visibleData[0].date, timeZone)} – ${formatBucket(visibleData[visibleData.length - 1].date, timeZone)}`,
+      filter: describeFilter(filter),
+      timeZone
+    }, resolvedTheme);
+    return downloadImage(image, 'pulse', format);
+  };
 
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
-      const point = payload[0].payload as ChartDataPoint;
-      // For hour/15m granularities, show local time; for daily, show PST
-      const showLocalTime = granularity === '1h' || granularity === '15m';
-      console.log('showLocalTime:', showLocalTime);
-      const dateDisplay = showLocalTime
-        ? new Date(point.date).toLocaleString('en-US', { 
-            weekday: 'short', 
-            year: 'numeric', 
-            month: '2-digit', 
-            day: '2-digit', 
-            hour: '2-digit', 
-            minute: '2-digit',
-            hour12: false 
-          })
-        : `${point.fullDate} PST`;
+      const point = payload[0].payload as ChartRow;
+      const dateDisplay = `${point.fullDate} ${timeZoneLabel}`;
+      const projection = point.forecast !== undefined && point.forecastBand && (
+        <p className="text-[11px] font-bold mt-1" style={{ color: FORECAST_COLOR }}>
+          Projected ~{point.forecast.toLocaleString()} ({point.forecastBand[0].toLocaleString()}–{point.forecastBand[1].toLocaleString()})
+        </p>
+      );
+      if (point.forecastOnly) {
+        return (
+          <div className="bg-white dark:bg-slate-700 p-3 rounded-xl shadow-xl border border-slate-100 dark:border-slate-600 z-50">
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-400 mb-1 uppercase tracking-wider">
+               {dateDisplay}
+            </p>
+            {projection}
+          </div>
+        );
+      }
       return (
         <div className="bg-white dark:bg-slate-700 p-3 rounded-xl shadow-xl border border-slate-100 dark:border-slate-600 z-50">
           <p className="text-[10px] font-bold text-slate-400 dark:text-slate-400 mb-1 uppercase tracking-wider">
              {dateDisplay}
           </p>
-          <p className="text-sm font-extrabold text-primary mb-1">
-            {point.total.toLocaleString()} <span className="text-slate-400 font-normal">items</span>
-          </p>
+          {point.coverage === 0 ? (
+            <p className="text-sm font-extrabold text-slate-400 mb-1">No data recorded</p>
+          ) : (
+            <p className="text-sm font-extrabold text-primary mb-1">
+              {point.total.toLocaleString()} <span className="text-slate-400 font-normal">items</span>
+            </p>
+          )}
+          {point.coverage !== null && point.coverage > 0 && point.coverage < 1 && (
+            <p className="text-[11px] font-bold text-amber-500 mb-1">
+              {Math.round((1 - point.coverage) * 100)}% of 15m buckets missing
+            </p>
+          )}
           <div className="text-[11px] font-medium text-slate-500 dark:text-slate-300 flex items-center gap-2">
             <span className="inline-block size-2 rounded-full" style={{ backgroundColor: '#ef4444' }} />
             {point.zeroEtv.toLocaleString()} Zero ETV
@@ -163,6 +408,24 @@ const PulseChart: React.FC<PulseChartProps> = ({
             <span className="inline-block size-2 rounded-full" style={{ backgroundColor: '#3b82f6' }} />
             {point.ai.toLocaleString()} AI
           </div>
+          {isSpike(point) && (
+            <p className="text-[11px] font-bold mt-1" style={{ color: SPIKE_COLOR }}>
+              Unusual surge · score {point.anomalyScore}
+            </p>
+          )}
+          {showPrevious && point.previous !== null && (
+            <p className="text-[11px] font-medium text-slate-500 dark:text-slate-300 mt-1">
+              <span className="font-bold" style={{ color: PREVIOUS_COLOR }}>{previousLabel}</span>{' '}
+              {point.previous.toLocaleString()} · {formatDelta(point.total, point.previous)}
+            </p>
+          )}
+          {showBaseline && point.baseline !== null && (
+            <p className="text-[11px] font-medium text-slate-500 dark:text-slate-300 mt-1">
+              <span className="font-bold" style={{ color: BASELINE_COLOR }}>{baselineLabel}</span>{' '}
+              {point.baseline.toLocaleString()} · {formatDelta(point.total, point.baseline)}
+            </p>
+          )}
+          {projection}
         </div>
       );
     }
@@ -179,27 +442,88 @@ const PulseChart: React.FC<PulseChartProps> = ({
     value: tf,
     label: tf
   }));
+  if (range) {
+    timeframeOptions.push({ value: 'custom', label: 'Custom' });
+  }
 
   return (
     <section className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 p-6 sm:p-8">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-8 gap-4">
         <div>
           <h2 className="text-2xl font-extrabold text-slate-900 dark:text-white">The Pulse</h2>
-          <p className="text-slate-500 dark:text-slate-400 text-sm font-medium">Vertical lines mark midnight PST — when Amazon Vine drops launch</p>
+          <p className="text-slate-500 dark:text-slate-400 text-sm font-medium">Vertical lines mark midnight {timeZoneLabel} — Amazon Vine drops launch at midnight Pacific</p>
         </div>
         
-        <SegmentedControl 
-          options={granularityOptions}
-          value={granularity}
-          onChange={onGranularityChange}
-          name="granularity"
-          variant="elevated"
-        />
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1.5" title="How unusual a bucket must be, compared with the same weekday and hour, to be marked">
+            <span className="size-2 rounded-full" style={{ backgroundColor: SPIKE_COLOR }} />
+            <SegmentedControl
+              options={sensitivityOptions}
+              value={sensitivity}
+              onChange={onSensitivityChange}
+              name="spikeSensitivity"
+              variant="elevated"
+            />
+          </div>
+          <SegmentedControl 
+            options={granularityOptions}
+            value={granularity}
+            onChange={onGranularityChange}
+            name="granularity"
+            variant="elevated"
+          />
+          <ExportMenu
+            items={[
+              { label: 'Visible data (CSV)', onSelect: () => downloadFile(exportChartSeries(visibleData, timeZone, 'csv')) },
+              { label: 'Visible data (JSON)', onSelect: () => downloadFile(exportChartSeries(visibleData, timeZone, 'json')) },
+              { label: 'Chart image (SVG)', onSelect: () => exportImage('svg') },
+              { label: 'Chart image (PNG)', onSelect: () => exportImage('png') }
+            ]}
+          />
+        </div>
       </div>
 
-      <div className="h-72 w-full mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs font-bold">
+        {([
+          ['previous', previousLabel, PREVIOUS_COLOR],
+          ['baseline', baselineLabel, BASELINE_COLOR]
+        ] as [ChartOverlay, string, string][]).map(([overlay, label, color]) => (
+          <button
+            key={overlay}
+            onClick={() => toggleOverlay(overlay)}
+            aria-pressed={overlays.includes(overlay)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-colors ${
+              overlays.includes(overlay)
+                ? 'border-slate-300 dark:border-slate-500 text-slate-700 dark:text-slate-200'
+                : 'border-slate-100 dark:border-slate-700 text-slate-400'
+            }`}
+          >
+            <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: color }} />
+            {label}
+          </button>
+        ))}
+        {gapRuns.length > 0 && (
+          <span className="flex items-center gap-1.5 px-2.5 py-1 text-slate-400" title="Buckets the scraper didn't record; they're left out of medians and spike detection">
+            <svg width="12" height="12" aria-hidden="true">
+              <rect width="12" height="12" fill="url(#pulse-gap-hatch)" stroke={GAP_COLOR} strokeWidth="1" />
+            </svg>
+            Missing data
+          </span>
+        )}
+      </div>
+
+      <RangeSummary summary={summary} granularity={granularity} isRange={range !== null} />
+
+      <div ref={chartContainerRef} className="h-72 w-full mb-6 select-none">
         <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={visibleData} margin={{ top: 10, right: 10, left: 6, bottom: 0 }}>
+          <ComposedChart
+            data={chartRows}
+            margin={{ top: 10, right: 10, left: 6, bottom: 0 }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          >
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
             <XAxis 
               dataKey="date" 
@@ -208,7 +532,7 @@ const PulseChart: React.FC<PulseChartProps> = ({
               axisLine={false} 
               tickLine={false} 
               tick={{fill: axisTextColor, fontSize: 10, fontWeight: 600}} 
-              tickFormatter={(value) => formatChartTickLabel(Number(value), granularity)}
+              tickFormatter={(value) => formatChartTickLabel(Number(value), granularity, timeZone)}
               minTickGap={30}
               padding={{ left: 6, right: 6 }}
             />
@@ -219,9 +543,9 @@ const PulseChart: React.FC<PulseChartProps> = ({
               width={40}
               tickMargin={6}
             />
-            {pstWeekStartLines.map((ts) => (
+            {weekStartLines.map((ts) => (
               <ReferenceLine
-                key={`pst-week-start-${ts}`}
+                key={`week-start-${ts}`}
                 x={ts}
                 stroke={axisTextColor}
                 strokeDasharray="6 6"
@@ -229,31 +553,107 @@ const PulseChart: React.FC<PulseChartProps> = ({
                 strokeWidth={1}
               />
             ))}
-            {pstMonthStartLines.map((ts) => (
+            {monthStartLines.map((ts) => (
               <ReferenceLine
-                key={`pst-month-start-${ts}`}
+                key={`month-start-${ts}`}
                 x={ts}
                 stroke={axisTextColor}
                 {...dayMarkerStyle}
               />
             ))}
-            {pstMidnightLines.map((ts) => (
+            {midnightLines.map((ts) => (
               <ReferenceLine
-                key={`pst-midnight-${ts}`}
+                key={`midnight-${ts}`}
                 x={ts}
                 stroke={axisTextColor}
                 {...dayMarkerStyle}
               />
             ))}
+            <defs>
+              <pattern id="pulse-gap-hatch" width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                <line x1="0" y1="0" x2="0" y2="6" stroke={GAP_COLOR} strokeWidth="2" />
+              </pattern>
+            </defs>
+            {gapRuns.map(run => (
+              <ReferenceArea
+                key={`gap-${run.start}`}
+                x1={run.start - intervalMs / 2}
+                x2={run.end + intervalMs / 2}
+                fill="url(#pulse-gap-hatch)"
+                fillOpacity={0.35}
+                strokeOpacity={0}
+              />
+            ))}
+            {dragStart !== null && dragEnd !== null && dragStart !== dragEnd && (
+              <ReferenceArea
+                x1={visibleData[Math.min(dragStart, dragEnd)].date - intervalMs / 2}
+                x2={visibleData[Math.max(dragStart, dragEnd)].date + intervalMs / 2}
+                fill="#2b8cee"
+                fillOpacity={0.15}
+                strokeOpacity={0}
+              />
+            )}
             <Tooltip content={<CustomTooltip />} cursor={{fill: cursorFill}} />
-            <Bar dataKey="zeroEtv" stackId="stack1" radius={[0, 0, 8, 8]} minPointSize={2} fill="#ef4444" />
-            <Bar dataKey="lastChance" stackId="stack1" radius={[0, 0, 0, 0]} minPointSize={2} fill="#f97316" />
-            <Bar dataKey="ai" stackId="stack1" radius={[8, 8, 0, 0]} minPointSize={2} fill="#3b82f6" />
-          </BarChart>
+            <Bar dataKey="zeroEtv" stackId="stack1" radius={[0, 0, 8, 8]} minPointSize={barMinPointSize} fill="#ef4444" />
+            <Bar dataKey="lastChance" stackId="stack1" radius={[0, 0, 0, 0]} minPointSize={barMinPointSize} fill="#f97316" />
+            <Bar dataKey="ai" stackId="stack1" radius={[8, 8, 0, 0]} minPointSize={barMinPointSize} fill="#3b82f6" />
+            {showPrevious && (
+              <Line
+                dataKey="previous"
+                stroke={PREVIOUS_COLOR}
+                strokeWidth={2}
+                strokeOpacity={0.7}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {showBaseline && (
+              <Line
+                type="step"
+                dataKey="baseline"
+                stroke={BASELINE_COLOR}
+                strokeWidth={1.5}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
+            <Area
+              dataKey="forecastBand"
+              stroke="none"
+              fill={FORECAST_COLOR}
+              fillOpacity={0.15}
+              isAnimationActive={false}
+              activeDot={false}
+            />
+            <Line
+              dataKey="forecast"
+              stroke={FORECAST_COLOR}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+            {spikes.map((point) => (
+              <ReferenceDot
+                key={`spike-${point.date}`}
+                x={point.date}
+                y={point.zeroEtv + point.lastChance + point.ai}
+                r={4}
+                fill={SPIKE_COLOR}
+                stroke={isDark ? '#1e293b' : '#ffffff'}
+                strokeWidth={1.5}
+                ifOverflow="extendDomain"
+              />
+            ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
       <div className="w-full pt-4 border-t border-slate-100 dark:border-slate-700/50 flex flex-col gap-6">
+        {!range && (
         <div className="flex items-center gap-4">
           <span className="material-symbols-outlined text-slate-400 text-lg">history</span>
           <input 
@@ -261,11 +661,42 @@ const PulseChart: React.FC<PulseChartProps> = ({
             min="0" 
             max="100" 
             value={scrollPercentage} 
-            onChange={(e) => setScrollPercentage(parseInt(e.target.value))}
+            onChange={(e) => onScrollChange(parseInt(e.target.value))}
             className="range-slider" 
           />
           <span className="material-symbols-outlined text-slate-400 text-lg">schedule</span>
         </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-400">
+          <span className="material-symbols-outlined text-slate-400 text-lg">date_range</span>
+          <input
+            type="date"
+            value={startDateKey}
+            min={minDateKey}
+            max={maxDateKey}
+            onChange={(e) => applyDateKeys(e.target.value, endDateKey)}
+            className="bg-slate-50 dark:bg-slate-900/50 rounded-lg px-2 py-1 text-slate-600 dark:text-slate-300 dark:[color-scheme:dark]"
+            aria-label="Range start date"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={endDateKey}
+            min={minDateKey}
+            max={maxDateKey}
+            onChange={(e) => applyDateKeys(startDateKey, e.target.value)}
+            className="bg-slate-50 dark:bg-slate-900/50 rounded-lg px-2 py-1 text-slate-600 dark:text-slate-300 dark:[color-scheme:dark]"
+            aria-label="Range end date"
+          />
+          {range ? (
+            <button onClick={() => onRangeChange(null)} className="text-primary hover:underline ml-1">
+              Clear
+            </button>
+          ) : (
+            <span className="hidden sm:inline font-medium text-slate-400 ml-1">or drag across the chart to zoom</span>
+          )}
+        </div>
 
         <div className="flex justify-center">
              <SegmentedControl 
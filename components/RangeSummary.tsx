@@ -0,0 +1,79 @@
+import React from 'react';
+import { ChartSummary, Granularity } from '../types';
+
+interface RangeSummaryProps {
+  summary: ChartSummary;
+  granularity: Granularity;
+  isRange: boolean; // A custom range is set, rather than the scrolling window
+}
+
+const BUCKET_LABELS: Record<Granularity, string> = {
+  '15m': 'per 15m',
+  '1h': 'per hour',
+  '1d': 'per day'
+};
+
+const formatShare = (value: number, total: number): string =>
+  total > 0 ? `${Math.round((value / total) * 100)}%` : '–';
+
+const Stat: React.FC<{ label: string; value: string; title?: string }> = ({ label, value, title }) => (
+  <div className="flex flex-col" title={title}>
+    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">{label}</span>
+    <span className="text-sm font-extrabold text-slate-700 dark:text-slate-200 tabular-nums">{value}</span>
+  </div>
+);
+
+// Statistics of the buckets currently on screen; recalculated as the window scrolls or the range changes
+const RangeSummary: React.FC<RangeSummaryProps> = ({ summary, granularity, isRange }) => {
+  const { totals } = summary;
+  const paid = totals.ai + totals.lastChance;
+  const per = BUCKET_LABELS[granularity];
+
+  return (
+    <div className="flex flex-wrap items-end gap-x-6 gap-y-3 mb-4">
+      <div className="flex flex-col">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">
+          {isRange ? 'Items in range' : 'Items on screen'}
+        </span>
+        <span className="text-lg font-extrabold text-primary tabular-nums">{summary.total.toLocaleString()}</span>
+      </div>
+      <div className="flex flex-col gap-1 min-w-40">
+        <div className="flex items-center gap-2 text-[11px] font-bold text-slate-500 dark:text-slate-400">
+          <span className="inline-block size-2 rounded-full" style={{ backgroundColor: '#3b82f6' }} />
+          {totals.ai.toLocaleString()} AI ({formatShare(totals.ai, paid)})
+          <span className="inline-block size-2 rounded-full" style={{ backgroundColor: '#f97316' }} />
+          {totals.lastChance.toLocaleString()} AFA ({formatShare(totals.lastChance, paid)})
+        </div>
+        {paid > 0 && (
+          <div className="flex h-1.5 w-full rounded-full overflow-hidden bg-slate-100 dark:bg-slate-700">
+            <div style={{ width: `${(totals.ai / paid) * 100}%`, backgroundColor: '#3b82f6' }} />
+            <div style={{ width: `${(totals.lastChance / paid) * 100}%`, backgroundColor: '#f97316' }} />
+          </div>
+        )}
+        <div
+          className="flex items-center gap-2 text-[11px] font-bold text-slate-500 dark:text-slate-400"
+          title="Zero ETV items are also AI or AFA, so this share overlaps the two above"
+        >
+          <span className="inline-block size-2 rounded-full" style={{ backgroundColor: '#ef4444' }} />
+          {totals.zeroEtv.toLocaleString()} Zero ETV ({formatShare(totals.zeroEtv, paid || totals.zeroEtv)} of items)
+        </div>
+      </div>
+      <Stat label={`Mean ${per}`} value={summary.mean.toLocaleString()} />
+      <Stat label={`Median ${per}`} value={summary.median.toLocaleString()} />
+      <Stat label="Std dev" value={summary.stdDev.toLocaleString()} />
+      <Stat
+        label="Peak"
+        value={summary.peak ? `${summary.peak.total.toLocaleString()} · ${summary.peak.fullDate}` : '–'}
+      />
+      <Stat
+        label="Active buckets"
+        value={`${summary.activeBuckets.toLocaleString()} / ${summary.buckets.toLocaleString()}`}
+        title={summary.missingBuckets > 0
+          ? `${summary.missingBuckets.toLocaleString()} buckets with no recorded data are left out of every statistic`
+          : 'Buckets with at least one item'}
+      />
+    </div>
+  );
+};
+
+export default RangeSummary;
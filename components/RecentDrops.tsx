@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import dayjs from 'dayjs';
+import { DataFilter } from '../types';
+import { formatDateTime, getTimeZoneLabel } from '../utils/analytics';
+import { DropEvent, QuietStats, QuietWindow, summarizeDropEvents } from '../utils/drops';
+import { describeFilter, formatDuration } from '../utils/labels';
+import SegmentedControl from './SegmentedControl';
+
+interface RecentDropsProps {
+  events: DropEvent[]; // The last week of drops, oldest first
+  lastBucket: number;  // `t` of the newest bucket in the data
+  quiet: QuietStats;
+  minItems: number; // Items a 15m bucket needs to count towards a drop
+  onMinItemsChange: (value: number) => void;
+  timeZone: string;
+  filter: DataFilter;
+}
+
+type Span = 1 | 7; // Days
+
+const FEED_LENGTH = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = 'bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 dark:text-slate-200 outline-none';
+
+const QUIET_WINDOW_LABELS: Record<QuietWindow, string> = {
+  week: 'Longest, last 7d',
+  month: 'Longest, last 30d',
+  year: 'Longest, last year'
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex flex-col">
+    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">{label}</span>
+    <span className="text-lg font-extrabold text-slate-700 dark:text-slate-200 tabular-nums">{value}</span>
+  </div>
+);
+
+// Bursts of consecutive active buckets, newest first, over the last day or week of data
+const RecentDrops: React.FC<RecentDropsProps> = ({ events: recentEvents, lastBucket, quiet, minItems, onMinItemsChange, timeZone, filter }) => {
+  const [span, setSpan] = useState<Span>(1);
+
+  const events = useMemo(() => {
+    const since = lastBucket - span * DAY_MS;
+    return recentEvents.filter(event => event.start >= since);
+  }, [recentEvents, lastBucket, span]);
+  const stats = useMemo(() => summarizeDropEvents(events), [events]);
+  const feed = events.slice(-FEED_LENGTH).reverse();
+  const maxHourlyP90 = Math.max(...quiet.byHour.map(gaps => gaps.p90), 1);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 p-6 flex flex-col gap-6 w-full">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-baseline gap-2">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Recent Drops ({getTimeZoneLabel(timeZone)})</h3>
+          <span className="text-xs font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+            ({describeFilter(filter)})
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-400">
+            Active at
+            <input
+              type="number"
+              min={1}
+              value={minItems}
+              onChange={(e) => {
+                const next = Math.floor(Number(e.target.value));
+                if (Number.isFinite(next) && next >= 1) onMinItemsChange(next);
+              }}
+              className={`${inputClass} w-16`}
+              aria-label="Items per 15m bucket"
+            />
+            per 15m
+          </label>
+          <SegmentedControl
+            options={[
+              { value: 1, label: '24h' },
+              { value: 7, label: '7d' }
+            ]}
+            value={span}
+            onChange={(value) => setSpan(value as Span)}
+            name="recentDropsSpan"
+            variant="elevated"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-8 gap-y-3">
+        <Stat label="Drops" value={stats.count.toLocaleString()} />
+        <Stat label="Typical size" value={stats.count ? stats.medianSize.toLocaleString() : '–'} />
+        <Stat label="Largest" value={stats.count ? stats.largestSize.toLocaleString() : '–'} />
+        <Stat label="Typical length" value={stats.count ? formatDuration(stats.medianDuration) : '–'} />
+        <Stat label="Typical spacing" value={stats.medianSpacing !== null ? formatDuration(stats.medianSpacing) : '–'} />
+      </div>
+
+      {feed.length === 0 ? (
+        <p className="text-sm text-slate-400">No drops in this window.</p>
+      ) : (
+        <ul className="flex flex-col gap-3 max-h-96 overflow-y-auto">
+          {feed.map(event => {
+            const paid = event.totals.ai + event.totals.lastChance;
+            return (
+              <li key={event.start} className="grid grid-cols-[6rem_1fr_auto] items-center gap-3 text-sm">
+                <span className="flex flex-col">
+                  <span className="font-bold text-slate-700 dark:text-slate-200">{dayjs(event.start).fromNow()}</span>
+                  <span className="text-[11px] font-medium text-slate-400 tabular-nums">
+                    {formatDateTime(event.start, timeZone).slice(5)} · {formatDuration(event.end - event.start)}
+                  </span>
+                </span>
+                <div className="flex flex-col gap-1">
+                  <div className="flex h-2 w-full rounded-full overflow-hidden bg-slate-100 dark:bg-slate-700">
+                    {paid > 0 && (
+                      <>
+                        <div style={{ width: `${(event.totals.ai / paid) * 100}%`, backgroundColor: '#3b82f6' }} />
+                        <div style={{ width: `${(event.totals.lastChance / paid) * 100}%`, backgroundColor: '#f97316' }} />
+                      </>
+                    )}
+                  </div>
+                  <span className="text-[11px] font-medium text-slate-400">
+                    {event.totals.ai.toLocaleString()} AI · {event.totals.lastChance.toLocaleString()} AFA · {event.totals.zeroEtv.toLocaleString()} Zero ETV
+                  </span>
+                </div>
+                <span className="text-right tabular-nums" title={`Busiest 15m bucket: ${event.peak.toLocaleString()}`}>
+                  <span className="font-extrabold text-primary">{event.size.toLocaleString()}</span>
+                  <span className="text-xs font-medium text-slate-400"> items</span>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-col gap-4 border-t border-slate-100 dark:border-slate-700 pt-6">
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">
+          Quiet periods ({quiet.overall.count.toLocaleString()} in the last year)
+        </p>
+        <div className="flex flex-wrap gap-x-8 gap-y-3">
+          <Stat label="Typical" value={quiet.overall.count ? formatDuration(quiet.overall.p50) : '–'} />
+          <Stat label="90th percentile" value={quiet.overall.count ? formatDuration(quiet.overall.p90) : '–'} />
+          {(Object.keys(QUIET_WINDOW_LABELS) as QuietWindow[]).map(quietWindow => {
+            const period = quiet.longest[quietWindow];
+            return (
+              <div
+                key={quietWindow}
+                title={period ? `${formatDateTime(period.start, timeZone)} – ${formatDateTime(period.end, timeZone)}` : undefined}
+              >
+                <Stat label={QUIET_WINDOW_LABELS[quietWindow]} value={period ? formatDuration(period.end - period.start) : '–'} />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex flex-col gap-1">
+          <div className="h-16 flex items-end gap-[3px]">
+            {quiet.byHour.map((gaps, hour) => (
+              <div
+                key={hour}
+                className="flex-1 h-full flex items-end"
+                title={gaps.count
+                  ? `${String(hour).padStart(2, '0')}:00 · typical ${formatDuration(gaps.p50)}, p90 ${formatDuration(gaps.p90)} (${gaps.count} periods)`
+                  : `${String(hour).padStart(2, '0')}:00 · no quiet periods`}
+              >
+                <div className="w-full rounded-t bg-amber-400/40 flex items-end" style={{ height: `${(gaps.p90 / maxHourlyP90) * 100}%` }}>
+                  <div className="w-full rounded-t bg-amber-500" style={{ height: `${gaps.p90 ? (gaps.p50 / gaps.p90) * 100 : 0}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[9px] font-bold text-slate-400">
+            <span>00</span><span>06</span><span>12</span><span>18</span><span>23</span>
+          </div>
+          <p className="text-[11px] font-medium text-slate-400">
+            Typical and 90th percentile quiet period by the hour it began ({getTimeZoneLabel(timeZone)})
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecentDrops;
@@ -0,0 +1,53 @@
+import React, { useRef } from 'react';
+import { DataSource } from '../services/dataSources';
+
+interface SourcePickerProps {
+  source: DataSource;
+  onFileSelected: (file: File) => void;
+  onReset?: () => void; // Shown when a non-default source is active
+}
+
+const SourcePicker: React.FC<SourcePickerProps> = ({ source, onFileSelected, onReset }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onFileSelected(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-1.5 py-1 rounded-full bg-slate-100 dark:bg-slate-700 shadow-sm border border-slate-200 dark:border-slate-600">
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="flex items-center gap-1.5 px-2 py-0.5 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+        title="Open a stats.json snapshot (or drop it anywhere on the page)"
+      >
+        <span className="material-symbols-outlined text-lg text-slate-500 dark:text-slate-400">upload_file</span>
+        <span className="text-xs font-bold text-slate-600 dark:text-slate-300 max-w-[10rem] truncate select-none">
+          {source.label}
+        </span>
+      </button>
+      {onReset && (
+        <button
+          onClick={onReset}
+          className="flex items-center rounded-full p-0.5 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          aria-label="Back to live data"
+          title="Back to live data"
+        >
+          <span className="material-symbols-outlined text-lg text-slate-500 dark:text-slate-400">close</span>
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleChange}
+      />
+    </div>
+  );
+};
+
+export default SourcePicker;
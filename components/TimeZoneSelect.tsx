@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { DEFAULT_TIMEZONE, getTimeZoneLabel } from '../utils/analytics';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+}
+
+const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({ value, onChange }) => {
+  const options = useMemo(() => {
+    const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const zones = Intl.supportedValuesOf('timeZone');
+    // Pin the Vine launch zone and the browser's zone to the top
+    const pinned = Array.from(new Set([DEFAULT_TIMEZONE, browserZone, value]));
+    return [...pinned, ...zones.filter(zone => !pinned.includes(zone))].map(zone => ({
+      value: zone,
+      label: zone === browserZone ? `${zone} (Local)` : zone
+    }));
+  }, [value]);
+
+  return (
+    <label
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-slate-100 dark:bg-slate-700 shadow-sm border border-slate-200 dark:border-slate-600"
+      title="Timezone used for days, weeks and heat maps"
+    >
+      <span className="material-symbols-outlined text-lg text-slate-500 dark:text-slate-400">public</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-transparent text-xs font-bold text-slate-600 dark:text-slate-300 outline-none cursor-pointer max-w-[9rem]"
+        aria-label="Analysis timezone"
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value} className="text-slate-900">
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <span className="text-[10px] font-bold text-slate-400 uppercase">{getTimeZoneLabel(value)}</span>
+    </label>
+  );
+};
+
+export default TimeZoneSelect;
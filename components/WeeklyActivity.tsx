@@ -1,38 +1,93 @@
 import React, { useState, useMemo } from 'react';
-import { getHeatColor } from '../utils/analytics';
+import { getHeatColor, getTimeZoneLabel } from '../utils/analytics';
+import { downloadFile, exportDailyMap } from '../utils/export';
+import { ImageFormat, downloadImage, renderHeatMapSvg } from '../utils/imageExport';
+import { describeFilter } from '../utils/labels';
+import { DataFilter, DateRange } from '../types';
+import useDarkMode from '../hooks/useDarkMode';
+import ExportMenu from './ExportMenu';
 import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
 import isoWeek from 'dayjs/plugin/isoWeek';
 
+dayjs.extend(utc);
+dayjs.extend(timezone);
 dayjs.extend(isoWeek);
 
+const QUARTER_MS = 15 * 60 * 1000;
+
 interface WeeklyActivityProps {
   data: Record<string, number>;
+  coverage: Record<string, number>; // Days with missing buckets -> share recorded
   maxDaily: number;
+  window: DateRange; // Span of `data`; one column per week it touches
+  lastBucket: number; // `t` of the newest bucket in the data; the grid ends there for an older snapshot
+  lookbackLabel: string;
+  timeZone: string;
+  filter: DataFilter;
+  onOpenDate: (dateKey: string) => void; // Drill down into one day on the pulse chart
 }
 
-const WeeklyActivity: React.FC<WeeklyActivityProps> = ({ data, maxDaily }) => {
-  const [hoveredCell, setHoveredCell] = useState<{date: string, value: number, x: number, y: number} | null>(null);
+const WeeklyActivity: React.FC<WeeklyActivityProps> = ({ data, coverage, maxDaily, window, lastBucket, lookbackLabel, timeZone, filter, onOpenDate }) => {
+  const [resolvedTheme] = useDarkMode();
+  const [hoveredCell, setHoveredCell] = useState<{date: string, value: number, coverage?: number, x: number, y: number} | null>(null);
   
-  const { weeks, today } = useMemo(() => {
-    // Current Monday
-    const currentWeekStart = dayjs().startOf('isoWeek');
-    const weeksToDisplay = 24;
+  const { weeks, first, today } = useMemo(() => {
+    // Calendar dates in the analysis timezone; the grid itself works on plain UTC dates so DST never shifts a day
+    const toLocalDate = (ts: number) => dayjs.utc(dayjs(ts).tz(timeZone).format('YYYY-MM-DD'));
+    const todayDate = toLocalDate(Math.min(Date.now(), lastBucket + QUARTER_MS, window.end) - 1);
+    const firstDate = toLocalDate(window.start);
+    const firstWeekStart = firstDate.startOf('isoWeek');
     const w = [];
-    
-    // Generate last 24 weeks
-    for (let i = weeksToDisplay - 1; i >= 0; i--) {
-        w.push(currentWeekStart.subtract(i, 'week'));
+
+    // One column per Monday from the start of the window through the current week
+    for (let weekStart = firstWeekStart; !weekStart.isAfter(todayDate); weekStart = weekStart.add(1, 'week')) {
+        w.push(weekStart);
     }
-    return { weeks: w, today: dayjs().endOf('day') };
-  }, []);
+    return { weeks: w, first: firstDate, today: todayDate };
+  }, [timeZone, window.start, window.end, lastBucket]);
 
   const daysOfWeek = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  const gridStyle = { gridTemplateColumns: `30px repeat(${weeks.length}, minmax(0, 1fr))` };
+
+  const monthLabels = useMemo(() => weeks.map(weekStart => {
+    const weekEnd = weekStart.add(6, 'day');
+    const startMonth = weekStart.month(); // 0-11
+    const endMonth = weekEnd.month();
+
+    // Show label if new month starts in this week or if start month != end month
+    const isNewMonth = startMonth !== endMonth || weekStart.date() === 1;
+    const monthLabel = (startMonth !== endMonth)
+        ? weekEnd.format('MMM')
+        : weekStart.format('MMM');
+    return isNewMonth ? monthLabel : '';
+  }), [weeks]);
+
+  const exportImage = (format: ImageFormat) => {
+    const image = renderHeatMapSvg({
+      rowLabels: daysOfWeek,
+      columnLabels: monthLabels,
+      values: daysOfWeek.map((_, dayIndex) => weeks.map(weekStart => {
+        const cellDate = weekStart.add(dayIndex, 'day');
+        return cellDate.isAfter(today) || cellDate.isBefore(first) ? null : data[cellDate.format('YYYY-MM-DD')] || 0;
+      })),
+      max: maxDaily
+    }, {
+      title: 'Weekly Activity',
+      dateRange: `${first.format('YYYY-MM-DD')} – ${today.format('YYYY-MM-DD')}`,
+      filter: describeFilter(filter),
+      timeZone
+    }, resolvedTheme);
+    return downloadImage(image, 'weekly-activity', format);
+  };
 
   const handleMouseEnter = (e: React.MouseEvent, date: string, value: number) => {
     const rect = e.currentTarget.getBoundingClientRect();
     setHoveredCell({
       date,
       value,
+      coverage: coverage[date],
       x: rect.left + rect.width / 2,
       y: rect.top - 10
     });
@@ -41,51 +96,53 @@ const WeeklyActivity: React.FC<WeeklyActivityProps> = ({ data, maxDaily }) => {
   return (
     <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 p-6 flex flex-col w-full overflow-visible relative">
       <div className="flex justify-between items-center mb-6">
-        <h3 className="text-lg font-bold text-slate-900 dark:text-white">Weekly Activity (Local)</h3>
+        <div className="flex items-baseline gap-2">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Weekly Activity ({getTimeZoneLabel(timeZone)})</h3>
+          <span className="text-xs font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">({lookbackLabel})</span>
+        </div>
+        <ExportMenu
+          items={[
+            { label: 'Daily totals (CSV)', onSelect: () => downloadFile(exportDailyMap(data, timeZone, 'csv')) },
+            { label: 'Daily totals (JSON)', onSelect: () => downloadFile(exportDailyMap(data, timeZone, 'json')) },
+            { label: 'Heat map image (SVG)', onSelect: () => exportImage('svg') },
+            { label: 'Heat map image (PNG)', onSelect: () => exportImage('png') }
+          ]}
+        />
       </div>
       
       <div className="w-full overflow-x-auto pb-2 scrollbar-hide">
         <div className="flex flex-col gap-1 w-full">
             {/* Months Header */}
-            <div className="grid grid-cols-[30px_repeat(24,1fr)] gap-[3px] mb-1">
+            <div className="grid gap-[3px] mb-1" style={gridStyle}>
                 <div className="text-[10px] text-slate-400 font-bold text-right pr-2"></div>
-                {weeks.map((weekStart, idx) => {
-                    const weekEnd = weekStart.add(6, 'day');
-                    const startMonth = weekStart.month(); // 0-11
-                    const endMonth = weekEnd.month();
-                    
-                    // Show label if new month starts in this week or if start month != end month
-                    const isNewMonth = startMonth !== endMonth || weekStart.date() === 1;
-                    const monthLabel = (startMonth !== endMonth) 
-                        ? weekEnd.format('MMM')
-                        : weekStart.format('MMM');
-
-                    return (
-                        <div key={idx} className="text-[9px] text-slate-400 font-bold text-center">
-                            {isNewMonth ? monthLabel : ''}
-                        </div>
-                    );
-                })}
+                {monthLabels.map((label, idx) => (
+                    <div key={idx} className="text-[9px] text-slate-400 font-bold text-center">
+                        {label}
+                    </div>
+                ))}
             </div>
 
             {/* Rows for days */}
             {daysOfWeek.map((dayName, dayIndex) => (
-                <div key={dayName} className="grid grid-cols-[30px_repeat(24,1fr)] gap-[3px] items-center">
+                <div key={dayName} className="grid gap-[3px] items-center" style={gridStyle}>
                     <div className="text-[10px] text-slate-500 font-bold text-right pr-2">{dayName}</div>
                     {weeks.map((weekStart, weekIndex) => {
                         const cellDate = weekStart.add(dayIndex, 'day');
                         const dateKey = cellDate.format('YYYY-MM-DD');
                         const value = data[dateKey] || 0;
                         const colorClass = getHeatColor(value, maxDaily);
-                        const isFuture = cellDate.isAfter(today);
-                        const finalColor = isFuture ? 'opacity-0 pointer-events-none' : colorClass;
+                        const isOutside = cellDate.isAfter(today) || cellDate.isBefore(first);
+                        const finalColor = isOutside ? 'opacity-0 pointer-events-none' : colorClass;
 
                         return (
                             <div 
                                 key={weekIndex} 
-                                onMouseEnter={(e) => !isFuture && handleMouseEnter(e, dateKey, value)}
+                                onMouseEnter={(e) => !isOutside && handleMouseEnter(e, dateKey, value)}
                                 onMouseLeave={() => setHoveredCell(null)}
-                                className={`aspect-square rounded-[4px] ${finalColor} transition-colors duration-200 cursor-crosshair hover:opacity-80`}
+                                onClick={() => !isOutside && onOpenDate(dateKey)}
+                                className={`aspect-square rounded-[4px] ${finalColor} transition-colors duration-200 cursor-pointer hover:opacity-80 ${
+                                    !isOutside && coverage[dateKey] !== undefined ? 'outline-1 outline-dashed outline-slate-400 -outline-offset-1' : ''
+                                }`}
                             />
                         );
                     })}
@@ -102,6 +159,10 @@ const WeeklyActivity: React.FC<WeeklyActivityProps> = ({ data, maxDaily }) => {
         >
           <div className="opacity-70 text-[10px] uppercase mb-0.5 tracking-tight">{hoveredCell.date}</div>
           <div>{hoveredCell.value.toLocaleString()} <span className="font-medium opacity-80">items</span></div>
+          {hoveredCell.coverage !== undefined && (
+            <div className="text-[10px] font-bold text-amber-500">{Math.round((1 - hoveredCell.coverage) * 100)}% of buckets missing</div>
+          )}
+          <div className="text-[10px] font-medium opacity-60 mt-0.5">Click to open in the chart</div>
           <div className="absolute left-1/2 bottom-0 w-2 h-2 bg-inherit transform -translate-x-1/2 translate-y-1/2 rotate-45" />
         </div>
       )}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StatsData } from '../types';
+import {
+  AlertEvent,
+  AlertRule,
+  AlertRuleDraft,
+  DEFAULT_ALERT_RULES,
+  MAX_ALERT_AGE_MS,
+  describeAlertRule,
+  evaluateAlerts
+} from '../utils/alerts';
+
+const RULES_KEY = 'alertRules';
+const HISTORY_KEY = 'alertHistory';
+const FIRED_KEY = 'alertFired';
+const MAX_HISTORY = 50;
+
+export type NotificationState = NotificationPermission | 'unsupported';
+
+const readStored = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getNotificationState = (): NotificationState =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+// The constructor throws on some platforms (e.g. Android Chrome) even with permission granted;
+// returns false so the caller can show a toast instead
+const showNotification = (event: AlertEvent, rules: AlertRule[]): boolean => {
+  const rule = rules.find(r => r.id === event.ruleId);
+  try {
+    new Notification(rule ? describeAlertRule(rule) : 'FreeVinesStats alert', { body: event.message, tag: event.key });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Evaluates the saved alert rules whenever the polled data changes. Alerts go out as browser
+ * notifications when permitted and as in-app toasts otherwise; both end up in the history log.
+ */
+export default function useAlerts(data: StatsData | null, timeZone: string, enabled: boolean) {
+  const [rules, setRules] = useState<AlertRule[]>(() => readStored(RULES_KEY, DEFAULT_ALERT_RULES));
+  const [history, setHistory] = useState<AlertEvent[]>(() => readStored(HISTORY_KEY, []));
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [notificationState, setNotificationState] = useState<NotificationState>(getNotificationState);
+  // Read synchronously by the evaluation effect so a bucket can't fire twice before state settles
+  const historyRef = useRef(history);
+  // Dedupe key -> bucket of every alert that may still be re-evaluated. Kept apart from the
+  // history, which is capped by count, and pruned once buckets are too old to alert on.
+  const firedRef = useRef<Record<string, number>>(
+    readStored(FIRED_KEY, Object.fromEntries(history.map(event => [event.key, event.bucket])))
+  );
+
+  useEffect(() => {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  }, [rules]);
+
+  useEffect(() => {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  }, [history]);
+
+  useEffect(() => {
+    if (!enabled || !data) return;
+    const now = Date.now();
+    const fired = Object.fromEntries(
+      Object.entries(firedRef.current).filter(([, bucket]) => bucket >= now - MAX_ALERT_AGE_MS)
+    );
+    const events = evaluateAlerts(rules, data.history, timeZone, new Set(Object.keys(fired)), now);
+    events.forEach(event => { fired[event.key] = event.bucket; });
+    firedRef.current = fired;
+    localStorage.setItem(FIRED_KEY, JSON.stringify(fired));
+    if (!events.length) return;
+
+    const nextHistory = [...events].reverse().concat(historyRef.current).slice(0, MAX_HISTORY);
+    historyRef.current = nextHistory;
+    setHistory(nextHistory);
+
+    const unsent = getNotificationState() === 'granted'
+      ? events.filter(event => !showNotification(event, rules))
+      : events;
+    if (unsent.length) setToasts(prev => [...prev, ...unsent]);
+  }, [data, rules, timeZone, enabled]);
+
+  const addRule = useCallback((rule: AlertRuleDraft) => {
+    setRules(prev => [...prev, { ...rule, id: `rule-${Date.now().toString(36)}` }]);
+  }, []);
+
+  const updateRule = useCallback((id: string, patch: Partial<AlertRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...patch } as AlertRule : rule)));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+  }, []);
+
+  const dismissToast = useCallback((key: string) => {
+    setToasts(prev => prev.filter(event => event.key !== key));
+  }, []);
+
+  const requestNotifications = useCallback(async () => {
+    if (!('Notification' in window)) return;
+    setNotificationState(await Notification.requestPermission());
+  }, []);
+
+  return {
+    rules,
+    history,
+    toasts,
+    notificationState,
+    addRule,
+    updateRule,
+    removeRule,
+    dismissToast,
+    requestNotifications
+  };
+}
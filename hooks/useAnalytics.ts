@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { StatsData } from '../types';
+import { analyzeQuietPeriods } from '../utils/drops';
+import { AnalyticsParams, AnalyticsRequest, AnalyticsResponse, AnalyticsResult } from '../workers/analyticsProtocol';
+
+const EMPTY_RESULT: AnalyticsResult = {
+  stats: {
+    lastHour: 0,
+    today: 0,
+    todayGrowth: 0,
+    todayMedian: 0,
+    thisWeek: 0,
+    weekGrowth: 0,
+    weekMedian: 0,
+    sameDayLastWeek: 0,
+    sameDayLastWeekGrowth: 0,
+    lastWeekToDate: 0,
+    lastWeekGrowth: 0,
+    updatedAt: null
+  },
+  chartData: [],
+  heatMaps: { weekly: {}, dailyCoverage: {}, hourlyMedian: [], hourlyMean: [], hourlyStats: [], window: { start: 0, end: 0 }, sampleWeeks: [], sampleWeights: [], maxDaily: 1, maxHourlyMedian: 1, maxHourlyMean: 1 },
+  completeness: { since: 0, coverage: 1, missingBuckets: 0, gaps: [] },
+  forecast: null,
+  forecastPoints: [],
+  drops: [],
+  quiet: analyzeQuietPeriods([])
+};
+
+/**
+ * Runs the analytics pipeline in a dedicated worker. The dataset is posted once per change and
+ * control changes only send parameters; responses to superseded requests are ignored.
+ */
+export default function useAnalytics(data: StatsData | null, params: AnalyticsParams) {
+  const { granularity, filter, timeZone, range, comparison, profile, lookback, recencyWeighted, dropSize } = params;
+  const workerRef = useRef<Worker | null>(null);
+  const latestIdRef = useRef(0);
+  const [result, setResult] = useState<AnalyticsResult>(EMPTY_RESULT);
+  const [computing, setComputing] = useState(false);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/analytics.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalyticsResponse>) => {
+      const response = event.data;
+      if (response.id !== latestIdRef.current) return;
+
+      if (response.type === 'result') {
+        setResult(response.result);
+      } else {
+        console.error(`[Analytics] ${response.message}`);
+      }
+      setComputing(false);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!data) {
+      setResult(EMPTY_RESULT);
+      return;
+    }
+    const request: AnalyticsRequest = { type: 'setData', data };
+    workerRef.current?.postMessage(request);
+  }, [data]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!data || !worker) return;
+
+    const id = latestIdRef.current + 1;
+    latestIdRef.current = id;
+    setComputing(true);
+    const request: AnalyticsRequest = {
+      type: 'compute',
+      id,
+      params: { granularity, filter, timeZone, range, comparison, profile, lookback, recencyWeighted, dropSize }
+    };
+    worker.postMessage(request);
+
+    return () => {
+      const cancel: AnalyticsRequest = { type: 'cancel', id };
+      worker.postMessage(cancel);
+    };
+  }, [data, granularity, filter, timeZone, range, comparison, profile, lookback, recencyWeighted, dropSize]);
+
+  return { ...result, computing };
+}
@@ -3,6 +3,9 @@ import { useEffect, useState } from 'react';
 type Theme = 'light' | 'dark' | 'system';
 type ResolvedTheme = 'light' | 'dark';
 
+// Keeps every component using this hook on the same theme when one of them changes it
+const THEME_EVENT = 'themechange';
+
 export default function useDarkMode() {
   const [theme, setTheme] = useState<Theme>(() => {
     const local = localStorage.getItem('theme');
@@ -14,6 +17,12 @@ export default function useDarkMode() {
 
   const [resolvedTheme, setResolvedTheme] = useState<ResolvedTheme>('light');
 
+  useEffect(() => {
+    const handleSync = (e: Event) => setTheme((e as CustomEvent<Theme>).detail);
+    window.addEventListener(THEME_EVENT, handleSync);
+    return () => window.removeEventListener(THEME_EVENT, handleSync);
+  }, []);
+
   useEffect(() => {
     const root = window.document.documentElement;
 
@@ -35,6 +44,7 @@ export default function useDarkMode() {
 
     applyTheme(theme);
     localStorage.setItem('theme', theme);
+    window.dispatchEvent(new CustomEvent<Theme>(THEME_EVENT, { detail: theme }));
 
     if (theme === 'system') {
       const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
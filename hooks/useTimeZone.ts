@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/analytics';
+
+// The analysis timezone used for every day/week boundary, heat map cell and label
+export default function useTimeZone() {
+  const [timeZone, setTimeZone] = useState<string>(() => {
+    const local = localStorage.getItem('timeZone');
+    if (local && isValidTimeZone(local)) {
+      return local;
+    }
+    return DEFAULT_TIMEZONE;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('timeZone', timeZone);
+  }, [timeZone]);
+
+  return [timeZone, setTimeZone] as const;
+}
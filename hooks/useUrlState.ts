@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DashboardUrlState, parseUrlState, serializeUrlState } from '../utils/urlState';
+
+type HistoryMode = 'push' | 'replace';
+
+/**
+ * Dashboard controls mirrored in the query string. Deliberate changes push a history entry so
+ * back/forward step through views; continuous or automatic ones (slider, corrections) replace it.
+ */
+export default function useUrlState() {
+  const [state, setState] = useState<DashboardUrlState>(() => parseUrlState(window.location.search));
+  const stateRef = useRef(state);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = parseUrlState(window.location.search);
+      stateRef.current = next;
+      setState(next);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const update = useCallback((patch: Partial<DashboardUrlState>, mode: HistoryMode = 'push') => {
+    const next = { ...stateRef.current, ...patch };
+    stateRef.current = next;
+    setState(next);
+
+    const search = serializeUrlState(next, window.location.search);
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (mode === 'push') {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, []);
+
+  return [state, update] as const;
+}
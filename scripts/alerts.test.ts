@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+
+import { HistoryItem } from '../types';
+import { AlertRule, evaluateAlerts } from '../utils/alerts';
+
+const QUARTER_MS = 15 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const now = Date.UTC(2025, 5, 11, 18, 0);
+
+// Eight weeks of quiet data with a drop in the newest bucket
+const buildHistory = (): HistoryItem[] => {
+  const history: HistoryItem[] = [];
+  for (let t = now - 8 * WEEK_MS; t < now; t += QUARTER_MS) {
+    history.push({ t, ai: 2, last_chance: 1 });
+  }
+  history[history.length - 1] = { t: now - QUARTER_MS, ai: 40, last_chance: 25 };
+  return history;
+};
+
+describe('evaluateAlerts', () => {
+  const history = buildHistory();
+  const rules: AlertRule[] = [
+    { id: 'afa', kind: 'threshold', enabled: true, metric: 'lastChance', window: '15m', min: 20 },
+    { id: 'busy', kind: 'percentile', enabled: true, metric: 'total', window: '1h', percentile: 90 },
+    { id: 'off', kind: 'threshold', enabled: false, metric: 'ai', window: '15m', min: 1 }
+  ];
+
+  it('fires threshold and percentile rules on the newest bucket', () => {
+    const events = evaluateAlerts(rules, history, 'America/Los_Angeles', new Set(), now);
+    expect(events.map(event => event.key)).toEqual([`afa:${now - QUARTER_MS}`, `busy:${now - QUARTER_MS}`]);
+    expect(events[0].value).toBe(25);
+    expect(events[1].value).toBe(65 + 3 * 3);
+  });
+
+  it('does not fire twice for the same bucket', () => {
+    const fired = new Set(evaluateAlerts(rules, history, 'America/Los_Angeles', new Set(), now).map(event => event.key));
+    expect(evaluateAlerts(rules, history, 'America/Los_Angeles', fired, now)).toEqual([]);
+  });
+
+  it('ignores buckets that are too old', () => {
+    expect(evaluateAlerts(rules, history, 'America/Los_Angeles', new Set(), now + WEEK_MS)).toEqual([]);
+  });
+});
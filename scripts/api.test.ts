@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+
+import { HistoryItem, StatsData } from '../types';
+import { fetchStats, mergeHistory } from '../services/api';
+
+const QUARTER_MS = 15 * 60 * 1000;
+const URL_BASE = 'https://example.com/stats.json';
+const meta = { totalItems: 10, updatedAt: new Date(0).toISOString() };
+const start = Date.UTC(2025, 5, 11, 12, 0);
+
+const buckets = (from: number, count: number, ai = 1): HistoryItem[] =>
+  Array.from({ length: count }, (_, i) => ({ t: from + i * QUARTER_MS, ai, last_chance: 0 }));
+
+describe('mergeHistory', () => {
+  const cached = buckets(start, 4);
+
+  it('replaces a revised trailing bucket', () => {
+    const revised = { t: start + 3 * QUARTER_MS, ai: 9, last_chance: 2 };
+    const next = { t: start + 4 * QUARTER_MS, ai: 3, last_chance: 0 };
+    const merged = mergeHistory(cached, [revised, next]);
+
+    expect(merged.map(item => item.t)).toEqual(buckets(start, 5).map(item => item.t));
+    expect(merged[3]).toEqual(revised);
+    expect(merged[4]).toEqual(next);
+  });
+
+  it('keeps the cache as is for an empty delta', () => {
+    expect(mergeHistory(cached, [])).toBe(cached);
+  });
+});
+
+describe('fetchStats', () => {
+  const originalFetch = globalThis.fetch;
+  const previous: StatsData = { meta, history: buckets(start, 4) };
+  const lastBucket = start + 3 * QUARTER_MS;
+  let requests: string[] = [];
+
+  // Answers every request with the JSON payload `respond` picks for its URL
+  const serve = (respond: (url: URL) => unknown) => {
+    globalThis.fetch = (async (input: string) => {
+      requests.push(input);
+      return new Response(JSON.stringify(respond(new URL(input))));
+    }) as typeof fetch;
+  };
+
+  beforeEach(() => {
+    requests = [];
+    (globalThis as { window?: unknown }).window = { location: { href: 'https://example.com/' } };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    delete (globalThis as { window?: unknown }).window;
+  });
+
+  it('merges a delta from the last cached bucket', async () => {
+    serve(() => ({ delta: true, since: lastBucket, meta, history: buckets(lastBucket, 2, 5) }));
+    const data = await fetchStats(URL_BASE, previous);
+
+    expect(requests).toEqual([`${URL_BASE}?since=${lastBucket}`]);
+    expect(data.history.map(item => item.t)).toEqual(buckets(start, 5).map(item => item.t));
+    expect(data.history[3].ai).toBe(5);
+  });
+
+  it('keeps the cached history for an empty delta', async () => {
+    serve(() => ({ delta: true, since: lastBucket, meta, history: [] }));
+    const data = await fetchStats(URL_BASE, previous);
+
+    expect(requests.length).toBe(1);
+    expect(data.history).toEqual(previous.history);
+  });
+
+  it('takes the full file from a server that ignores `since`', async () => {
+    const full = buckets(start - QUARTER_MS, 6, 2);
+    serve(() => ({ meta, history: full }));
+    const data = await fetchStats(URL_BASE, previous);
+
+    expect(requests.length).toBe(1);
+    expect(data.history).toEqual(full);
+  });
+
+  it('falls back to a full fetch when the delta starts after the last cached bucket', async () => {
+    const full = buckets(start, 8, 3);
+    serve(url => url.searchParams.has('since')
+      ? { delta: true, since: lastBucket + 2 * QUARTER_MS, meta, history: buckets(lastBucket + 2 * QUARTER_MS, 2) }
+      : { meta, history: full });
+    const data = await fetchStats(URL_BASE, previous);
+
+    expect(requests).toEqual([`${URL_BASE}?since=${lastBucket}`, URL_BASE]);
+    expect(data.history).toEqual(full);
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'bun:test';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import isoWeek from 'dayjs/plugin/isoWeek';
+import _ from 'lodash';
+import { performance } from 'node:perf_hooks';
+
+import { ALL_CATEGORIES, ANOMALY_THRESHOLDS, buildRollupIndex, getDateKeyRange, processCompleteness, processChartData, processForecast, processHeatMaps, rankDropWindows, summarizeChartPoints, sumRange } from '../utils/analytics';
+import type { Granularity, HistoryItem } from '../types';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+dayjs.extend(isoWeek);
+
+const TIMEZONE = 'America/Los_Angeles';
+const INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKETS = 120 * 24 * 4; // 120 days of 15-minute buckets
+
+const randomInt = (min: number, max: number): number =>
+  Math.floor(Math.random() * (max - min + 1)) + min;
+
+const generateMockData = (): HistoryItem[] => {
+  const end = Math.floor(Date.now() / INTERVAL_MS) * INTERVAL_MS;
+  const start = end - BUCKETS * INTERVAL_MS;
+
+  return Array.from({ length: BUCKETS }, (_, i) => ({
+    t: start + i * INTERVAL_MS,
+    ai: randomInt(0, 5),
+    last_chance: randomInt(0, 3),
+    zero_etv: randomInt(0, 2)
+  }));
+};
+
+const calculateMedian = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Unfiltered series keyed by bucket start, computed with a full scan per call
+const chartSeriesLegacy = (history: HistoryItem[], granularity: Granularity) => {
+  const keyOf = (t: number): number => {
+    if (granularity === '1d') return dayjs(t).tz(TIMEZONE).startOf('day').valueOf();
+    const interval = granularity === '15m' ? INTERVAL_MS : 4 * INTERVAL_MS;
+    return Math.floor(t / interval) * interval;
+  };
+
+  const groups = _.groupBy(history, h => keyOf(h.t));
+  return Object.entries(groups).map(([date, items]) => ({
+    date: Number(date),
+    ai: _.sumBy(items, i => i.ai ?? 0),
+    lastChance: _.sumBy(items, i => i.last_chance),
+    zeroEtv: _.sumBy(items, i => i.zero_etv ?? 0)
+  }));
+};
+
+const hourlyMediansLegacy = (history: HistoryItem[], tz: string): number[][] => {
+  const cutoff = Date.now() - 365 * DAY_MS;
+  const recent = history.filter(h => h.t > cutoff);
+  const weekStart = (t: number) => dayjs(t).tz(tz).startOf('isoWeek').valueOf();
+  const firstWeek = weekStart(recent[0].t);
+  const weekCount = Math.round((weekStart(recent[recent.length - 1].t) - firstWeek) / (7 * DAY_MS)) + 1;
+  const sums = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => Array(weekCount).fill(0)));
+  // The mock data has no gaps, so only slots outside the data (before it starts or still ahead) go unrecorded
+  const recorded = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => Array(weekCount).fill(false)));
+
+  for (const item of recent) {
+    const d = dayjs(item.t).tz(tz);
+    const week = Math.round((weekStart(item.t) - firstWeek) / (7 * DAY_MS));
+    sums[d.isoWeekday() - 1][d.hour()][week] += (item.ai ?? 0) + item.last_chance;
+    recorded[d.isoWeekday() - 1][d.hour()][week] = true;
+  }
+
+  return sums.map((day, d) => day.map((samples, h) =>
+    Math.round(calculateMedian(samples.filter((_, week) => recorded[d][h][week])) * 10) / 10
+  ));
+};
+
+describe('rollup index', () => {
+  const history = generateMockData();
+
+  const buildStart = performance.now();
+  const index = buildRollupIndex(history, TIMEZONE);
+  console.log(`[Index] Build time: ${(performance.now() - buildStart).toFixed(2)} ms`);
+
+  it('matches a full scan for every granularity', () => {
+    for (const granularity of ['15m', '1h', '1d'] as Granularity[]) {
+      const expected = chartSeriesLegacy(history, granularity);
+      const actual = processChartData(index, granularity)
+        .filter(point => point.date <= history[history.length - 1].t)
+        .map(({ date, ai, lastChance, zeroEtv }) => ({ date, ai, lastChance, zeroEtv }));
+
+      expect(actual).toEqual(expected);
+    }
+  });
+
+  it('sums arbitrary ranges from prefix sums', () => {
+    for (let n = 0; n < 20; n++) {
+      const a = randomInt(history[0].t, history[history.length - 1].t);
+      const b = randomInt(a, history[history.length - 1].t);
+      const inRange = history.filter(h => h.t >= a && h.t < b);
+
+      expect(sumRange(index, a, b)).toEqual({
+        ai: _.sumBy(inRange, h => h.ai ?? 0),
+        lastChance: _.sumBy(inRange, h => h.last_chance),
+        zeroEtv: _.sumBy(inRange, h => h.zero_etv ?? 0)
+      });
+    }
+  });
+
+  it('matches a full scan for hourly medians in another timezone', () => {
+    const berlinIndex = buildRollupIndex(history, 'Europe/Berlin');
+    expect(processHeatMaps(berlinIndex).hourlyMedian).toEqual(hourlyMediansLegacy(history, 'Europe/Berlin'));
+  });
+
+  it('starts hourly buckets on the local hour in a zone offset by 45 minutes', () => {
+    const kathmanduIndex = buildRollupIndex(history, 'Asia/Kathmandu');
+    const points = processChartData(kathmanduIndex, '1h');
+
+    expect(points.length).toBeGreaterThan(0);
+    expect(points.every(point => dayjs(point.date).tz('Asia/Kathmandu').minute() === 0)).toBe(true);
+    expect(processHeatMaps(kathmanduIndex).hourlyMedian).toEqual(hourlyMediansLegacy(history, 'Asia/Kathmandu'));
+  });
+
+  it('brackets the hourly median with the cell percentiles', () => {
+    const { hourlyMedian, hourlyStats, sampleWeeks } = processHeatMaps(index);
+
+    // Each entry is the Monday that starts its week
+    expect(sampleWeeks.every(week => dayjs.utc(week).isoWeekday() === 1)).toBe(true);
+
+    hourlyStats.forEach((row, d) => row.forEach((cell, h) => {
+      expect(cell.samples).toBeGreaterThanOrEqual(sampleWeeks.length - 2);
+      expect(cell.samples).toBeLessThanOrEqual(sampleWeeks.length);
+      expect(cell.p10).toBeLessThanOrEqual(cell.p25);
+      expect(cell.p25).toBeLessThanOrEqual(hourlyMedian[d][h]);
+      expect(hourlyMedian[d][h]).toBeLessThanOrEqual(cell.p75);
+      expect(cell.p90).toBeLessThanOrEqual(cell.max);
+      expect(cell.activeShare).toBeGreaterThan(0);
+    }));
+  });
+
+  it('limits the heat maps to the lookback window', () => {
+    const heatMaps = processHeatMaps(index, ALL_CATEGORIES, { weeks: 4 });
+    const weighted = processHeatMaps(index, ALL_CATEGORIES, { weeks: 4, recencyWeighted: true });
+
+    expect(Object.keys(heatMaps.weekly).length).toBeLessThanOrEqual(29);
+    expect(heatMaps.hourlyStats[0][0].samples).toBeGreaterThanOrEqual(4);
+    expect(heatMaps.hourlyStats[0][0].samples).toBeLessThanOrEqual(5);
+    expect(weighted.weekly).toEqual(heatMaps.weekly);
+    weighted.hourlyStats.forEach(row => row.forEach(cell => {
+      expect(cell.p10).toBeLessThanOrEqual(cell.p90);
+      expect(cell.p90).toBeLessThanOrEqual(cell.max);
+    }));
+  });
+
+  it('ends the lookback window at the end of an older snapshot', () => {
+    const snapshot = history.map(item => ({ ...item, t: item.t - 60 * DAY_MS }));
+    const snapshotIndex = buildRollupIndex(snapshot, TIMEZONE);
+    const heatMaps = processHeatMaps(snapshotIndex, ALL_CATEGORIES, { weeks: 4 });
+
+    expect(heatMaps.window.end).toBe(snapshotIndex.lastBucket + INTERVAL_MS);
+    expect(Object.keys(heatMaps.weekly).length).toBeGreaterThanOrEqual(28);
+    expect(heatMaps.hourlyStats[0][0].samples).toBeGreaterThanOrEqual(4);
+  });
+
+  it('flags an injected surge against the same weekday/hour', () => {
+    const spiked = history.map(item => ({ ...item }));
+    const target = spiked[spiked.length - 200];
+    target.ai = 80;
+    const points = processChartData(buildRollupIndex(spiked, TIMEZONE), '15m');
+    const flagged = points.filter(point => (point.anomalyScore ?? 0) >= ANOMALY_THRESHOLDS.low);
+
+    expect(flagged.map(point => point.date)).toEqual([target.t]);
+  });
+
+  it('reads the previous-period overlay from the same local day a week earlier', () => {
+    const points = processChartData(index, '1d', ALL_CATEGORIES, null, { shift: { unit: 'day', amount: 7 } });
+
+    expect(points.slice(0, 7).every(point => point.previous === null)).toBe(true);
+    for (let i = 7; i < points.length; i++) {
+      expect(points[i].previous).toBe(points[i - 7].total);
+    }
+  });
+
+  it('counts zero-ETV items only when they are the sole selection', () => {
+    const all = processChartData(index, '1d');
+    const aiAndZeroEtv = processChartData(index, '1d', ['ai', 'zeroEtv']);
+    const zeroEtvOnly = processChartData(index, '1d', ['zeroEtv']);
+
+    all.forEach((point, i) => {
+      expect(point.total).toBe(point.ai + point.lastChance);
+      expect(aiAndZeroEtv[i].total).toBe(point.ai);
+      expect(aiAndZeroEtv[i].lastChance).toBe(0);
+      expect(zeroEtvOnly[i].total).toBe(point.zeroEtv);
+    });
+  });
+
+  it('opens a local day as a 23-hour range on the spring-forward date', () => {
+    const { start, end } = getDateKeyRange('2025-03-09', TIMEZONE);
+
+    expect(start).toBe(Date.UTC(2025, 2, 9, 8));
+    expect(end - start).toBe(23 * 60 * 60 * 1000);
+  });
+
+  it('tells missing buckets apart from quiet ones', () => {
+    const gapStart = history[history.length - 100].t;
+    const gapped = history.filter(item => item.t < gapStart || item.t >= gapStart + 8 * INTERVAL_MS);
+    const gappedIndex = buildRollupIndex(gapped, TIMEZONE);
+    const points = processChartData(gappedIndex, '15m');
+    const gapPoints = points.filter(point => point.date >= gapStart && point.date < gapStart + 8 * INTERVAL_MS);
+
+    expect(gapPoints.map(point => point.coverage)).toEqual(Array(8).fill(0));
+    expect(gapPoints.every(point => point.anomalyScore === null)).toBe(true);
+    expect(points.find(point => point.date === gapStart - INTERVAL_MS)?.coverage).toBe(1);
+
+    const completeness = processCompleteness(gappedIndex);
+    expect(completeness.missingBuckets).toBe(8);
+    expect(completeness.gaps).toEqual([{ start: gapStart, end: gapStart + 8 * INTERVAL_MS }]);
+  });
+
+  it('summarizes visible buckets and leaves missing ones out', () => {
+    const gapStart = history[history.length - 100].t;
+    const gapped = history.filter(item => item.t < gapStart || item.t >= gapStart + 8 * INTERVAL_MS);
+    const gappedIndex = buildRollupIndex(gapped, TIMEZONE);
+    const points = processChartData(gappedIndex, '15m').slice(-120);
+    // A trailing bucket past the end of the data, where nothing was expected
+    const last = points[points.length - 1];
+    const summary = summarizeChartPoints([...points, { ...last, date: last.date + INTERVAL_MS, ai: 0, lastChance: 0, zeroEtv: 0, total: 0, coverage: null }]);
+
+    // Expected values straight from the raw buckets in the same window
+    const items = gapped.filter(item => item.t >= points[0].date && item.t <= last.date);
+    const totals = items.map(item => (item.ai ?? 0) + item.last_chance);
+    const total = totals.reduce((sum, value) => sum + value, 0);
+
+    expect(summary.buckets).toBe(items.length);
+    expect(summary.missingBuckets).toBe(120 - items.length + 1);
+    expect(summary.totals.ai).toBe(items.reduce((sum, item) => sum + (item.ai ?? 0), 0));
+    expect(summary.total).toBe(total);
+    expect(summary.mean).toBeCloseTo(total / items.length, 1);
+    expect(summary.median).toBe(calculateMedian(totals));
+    expect(summary.peak?.total).toBe(Math.max(...totals));
+  });
+
+  it('ranks upcoming hours by the share of weeks reaching the minimum', () => {
+    const heatMaps = processHeatMaps(index, ALL_CATEGORIES, { weeks: 12 });
+    const now = history[history.length - 1].t;
+    const windows = rankDropWindows(heatMaps, 10, TIMEZONE, 24, now);
+
+    expect(windows.length).toBe(24);
+    expect(windows.every(window => window.start > now && window.start <= now + DAY_MS)).toBe(true);
+    for (let i = 1; i < windows.length; i++) {
+      expect(windows[i].probability).toBeLessThanOrEqual(windows[i - 1].probability);
+    }
+
+    const { day, hour, probability } = windows[0];
+    const complete = heatMaps.hourlyStats[day][hour].weekly.filter((value): value is number => value !== null);
+    expect(probability).toBeCloseTo(complete.filter(value => value >= 10).length / complete.length, 6);
+  });
+
+  it('leaves weeks with an outage out of the forecast samples', () => {
+    const now = Date.UTC(2025, 5, 11, 18, 0);
+    const outageStart = now - 7 * DAY_MS + 2 * 60 * 60 * 1000;
+    const steady: HistoryItem[] = [];
+    for (let t = now - 9 * 7 * DAY_MS; t < now; t += INTERVAL_MS) {
+      if (t >= outageStart && t < outageStart + 2 * 60 * 60 * 1000) continue;
+      steady.push({ t, ai: 2, last_chance: 1 });
+    }
+
+    const { today } = processForecast(buildRollupIndex(steady, TIMEZONE), ALL_CATEGORIES, now);
+    const remaining = (Date.UTC(2025, 5, 12, 7, 0) - now) / INTERVAL_MS; // To midnight in Los Angeles
+
+    expect(today.projected).toBe(today.actual + remaining * 3);
+    expect(today.low).toBe(today.projected);
+    expect(today.high).toBe(today.projected);
+  });
+});
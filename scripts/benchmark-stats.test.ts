@@ -61,6 +61,10 @@ const processStatsLegacy = (history: HistoryItem[], updatedAtStr: string): Dashb
       thisWeek: 0,
       weekGrowth: 0,
       weekMedian: 0,
+      sameDayLastWeek: 0,
+      sameDayLastWeekGrowth: 0,
+      lastWeekToDate: 0,
+      lastWeekGrowth: 0,
       updatedAt: null
     };
   }
@@ -68,6 +72,16 @@ const processStatsLegacy = (history: HistoryItem[], updatedAtStr: string): Dashb
   const updatedAt = dayjs(updatedAtStr);
   const now = dayjs();
   const nowPst = now.tz(TIMEZONE);
+  const growth = (value: number, baseline: number) =>
+    baseline === 0 ? 100 : Math.round(((value - baseline) / baseline) * 100);
+
+  // Wall-clock minutes since local midnight / since local Monday midnight
+  const minuteOfDay = (d: dayjs.Dayjs) => d.hour() * 60 + d.minute();
+  const minuteOfWeek = (d: dayjs.Dayjs) => (d.isoWeekday() - 1) * 24 * 60 + minuteOfDay(d);
+  const nowMinuteOfDay = minuteOfDay(nowPst);
+  const nowMinuteOfWeek = minuteOfWeek(nowPst);
+  // Days and weeks missing more than 10% of their 15m buckets are left out of the medians
+  const isComplete = (items: HistoryItem[], minutes: number) => items.length >= (Math.floor(minutes / 15) + 1) * 0.9;
 
   // 1. Last Hour
   const oneHourAgo = now.subtract(1, 'hour');
@@ -83,18 +97,21 @@ const processStatsLegacy = (history: HistoryItem[], updatedAtStr: string): Dashb
     h => getAiCount(h) + h.last_chance
   );
 
-  // Median Daily
+  // Median Daily, each previous day cut off at the current time of day
   const dailyGroups = _.groupBy(
-    history.filter(h => h.t < todayStart.valueOf()),
+    history.filter(h => h.t < todayStart.valueOf() && minuteOfDay(dayjs(h.t).tz(TIMEZONE)) <= nowMinuteOfDay),
     h => dayjs(h.t).tz(TIMEZONE).format('YYYY-MM-DD')
   );
 
-  const dailyTotals = Object.values(dailyGroups).map(items =>
+  const dailyTotals = (Object.values(dailyGroups) as HistoryItem[][]).filter(items => isComplete(items, nowMinuteOfDay)).map(items =>
     _.sumBy(items, i => getAiCount(i) + i.last_chance)
   );
 
   const dailyMedian = Math.round(calculateMedian(dailyTotals));
-  const todayGrowth = dailyMedian === 0 ? 100 : Math.round(((todayTotal - dailyMedian) / dailyMedian) * 100);
+  const sameDayLastWeek = _.sumBy(
+    dailyGroups[nowPst.subtract(7, 'day').format('YYYY-MM-DD')] ?? [],
+    i => getAiCount(i) + i.last_chance
+  );
 
   // 3. This Week (PST, Monday Start)
   const weekStart = nowPst.startOf('isoWeek');
@@ -103,27 +120,34 @@ const processStatsLegacy = (history: HistoryItem[], updatedAtStr: string): Dashb
     h => getAiCount(h) + h.last_chance
   );
 
-  // Median Weekly
+  // Median Weekly, each previous week cut off at the current time of week
   const weeklyGroups = _.groupBy(
-    history.filter(h => h.t < weekStart.valueOf()),
+    history.filter(h => h.t < weekStart.valueOf() && minuteOfWeek(dayjs(h.t).tz(TIMEZONE)) <= nowMinuteOfWeek),
     h => dayjs(h.t).tz(TIMEZONE).startOf('isoWeek').format('YYYY-MM-DD')
   );
 
-  const weeklyTotals = Object.values(weeklyGroups).map(items =>
+  const weeklyTotals = (Object.values(weeklyGroups) as HistoryItem[][]).filter(items => isComplete(items, nowMinuteOfWeek)).map(items =>
     _.sumBy(items, i => getAiCount(i) + i.last_chance)
   );
 
   const weeklyMedian = Math.round(calculateMedian(weeklyTotals));
-  const weekGrowth = weeklyMedian === 0 ? 100 : Math.round(((thisWeekTotal - weeklyMedian) / weeklyMedian) * 100);
+  const lastWeekToDate = _.sumBy(
+    weeklyGroups[weekStart.subtract(1, 'week').format('YYYY-MM-DD')] ?? [],
+    i => getAiCount(i) + i.last_chance
+  );
 
   return {
     lastHour: lastHourTotal,
     today: todayTotal,
-    todayGrowth,
+    todayGrowth: growth(todayTotal, dailyMedian),
     todayMedian: dailyMedian,
     thisWeek: thisWeekTotal,
-    weekGrowth,
+    weekGrowth: growth(thisWeekTotal, weeklyMedian),
     weekMedian: weeklyMedian,
+    sameDayLastWeek,
+    sameDayLastWeekGrowth: growth(todayTotal, sameDayLastWeek),
+    lastWeekToDate,
+    lastWeekGrowth: growth(thisWeekTotal, lastWeekToDate),
     updatedAt: updatedAt.toDate()
   };
 };
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+
+import { HistoryItem } from '../types';
+import { analyzeQuietPeriods, segmentDropEvents, summarizeDropEvents } from '../utils/drops';
+
+const QUARTER_MS = 15 * 60 * 1000;
+const start = Date.UTC(2025, 5, 11, 12, 0);
+
+// Quiet buckets around three bursts; the last burst is split by a bucket the scraper missed
+const counts = [0, 3, 5, 0, 0, 2, 0, 0, 4, null, 6, 0];
+const history: HistoryItem[] = counts.flatMap((count, i) =>
+  count === null ? [] : [{ t: start + i * QUARTER_MS, ai: count, last_chance: 1, zero_etv: count ? 1 : 0 }]
+);
+
+describe('segmentDropEvents', () => {
+  it('groups consecutive active buckets and splits on gaps', () => {
+    const events = segmentDropEvents(history, { minItems: 2, filter: ['ai'] });
+
+    expect(events.map(event => [event.start, event.buckets, event.size])).toEqual([
+      [start + QUARTER_MS, 2, 8],
+      [start + 5 * QUARTER_MS, 1, 2],
+      [start + 8 * QUARTER_MS, 1, 4],
+      [start + 10 * QUARTER_MS, 1, 6]
+    ]);
+    expect(events[0].totals).toEqual({ ai: 8, lastChance: 2, zeroEtv: 2 });
+    expect(events[0].peak).toBe(5);
+  });
+
+  it('summarizes sizes, lengths and spacing', () => {
+    const stats = summarizeDropEvents(segmentDropEvents(history, { minItems: 2, filter: ['ai'] }));
+
+    expect(stats.count).toBe(4);
+    expect(stats.medianSize).toBe(5);
+    expect(stats.largestSize).toBe(8);
+    expect(stats.medianDuration).toBe(QUARTER_MS);
+    expect(stats.medianSpacing).toBe(3 * QUARTER_MS);
+  });
+});
+
+describe('analyzeQuietPeriods', () => {
+  it('measures quiet periods, skipping ones with missing buckets', () => {
+    const quiet = analyzeQuietPeriods(history, 'UTC', { minItems: 2, filter: ['ai'] });
+
+    // Gaps after the first two drops; the one across the missing bucket is left out
+    expect(quiet.overall.count).toBe(2);
+    expect(quiet.overall.max).toBe(2 * QUARTER_MS);
+    expect(quiet.lastDrop).toBe(start + 11 * QUARTER_MS);
+    expect(quiet.current).toBe(QUARTER_MS);
+    expect(quiet.percentile).toBe(0);
+    expect(quiet.byHour[12].count).toBe(1);
+    expect(quiet.byHour[13].count).toBe(1);
+    expect(quiet.longest.week).toEqual({ start: start + 3 * QUARTER_MS, end: start + 5 * QUARTER_MS });
+  });
+
+  it('does not rank a current period that spans missing buckets', () => {
+    const quiet = analyzeQuietPeriods(history.slice(0, 9).concat(history[history.length - 1]), 'UTC', { minItems: 2, filter: ['ai'] });
+
+    expect(quiet.current).toBe(3 * QUARTER_MS);
+    expect(quiet.currentRecorded).toBe(false);
+    expect(quiet.percentile).toBeNull();
+    expect(quiet.longest.week).toEqual({ start: start + 3 * QUARTER_MS, end: start + 5 * QUARTER_MS });
+  });
+});
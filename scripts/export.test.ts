@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'bun:test';
+
+import { ChartDataPoint } from '../types';
+import { exportChartSeries, exportHourlyMatrix, toCsv } from '../utils/export';
+
+const TIMEZONE = 'Asia/Kolkata';
+
+const csvLines = (content: string): string[] => content.trimEnd().split('\n');
+
+describe('toCsv', () => {
+  it('quotes values with commas, quotes or newlines', () => {
+    const csv = toCsv(['name', 'note'], [
+      ['plain', 1],
+      ['a,b', 'say "hi"'],
+      ['two\nlines', '']
+    ]);
+
+    expect(csv).toBe('name,note\nplain,1\n"a,b","say ""hi"""\n"two\nlines",\n');
+  });
+});
+
+describe('exportChartSeries', () => {
+  const point: ChartDataPoint = {
+    date: Date.UTC(2025, 5, 11, 18, 30),
+    ai: 3,
+    lastChance: 2,
+    zeroEtv: 1,
+    total: 5,
+    label: '',
+    fullDate: '',
+    anomalyScore: 2.5,
+    previous: null,
+    baseline: 4,
+    coverage: null
+  };
+
+  it('labels the date column with the timezone and formats dates in it', () => {
+    const { filename, content, mimeType } = exportChartSeries([point], TIMEZONE, 'csv');
+    const [header, row] = csvLines(content);
+
+    expect(filename).toMatch(/^freevinesstats-chart-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(mimeType).toBe('text/csv');
+    expect(header).toBe(`date (${TIMEZONE}),timestamp_ms,ai,lastChance,zeroEtv,total,anomalyScore,previous,baseline,coverage`);
+    expect(row).toBe(`2025-06-12 00:00,${point.date},3,2,1,5,2.5,,4,`);
+  });
+
+  it('carries the timezone in the JSON export', () => {
+    const json = JSON.parse(exportChartSeries([point], TIMEZONE, 'json').content);
+    expect(json.timeZone).toBe(TIMEZONE);
+    expect(json.points[0].date).toBe('2025-06-12 00:00');
+  });
+});
+
+describe('exportHourlyMatrix', () => {
+  it('writes one Monday-first row per weekday and one column per hour', () => {
+    const matrix = Array.from({ length: 7 }, (_, d) => Array.from({ length: 24 }, (_, h) => d * 100 + h));
+    const { filename, content } = exportHourlyMatrix(matrix, 'median', TIMEZONE, 'csv');
+    const [header, ...rows] = csvLines(content).map(line => line.split(','));
+
+    expect(filename).toMatch(/^freevinesstats-hourly-median-/);
+    expect(header.length).toBe(25);
+    expect(header[0]).toBe(`weekday (${TIMEZONE})`);
+    expect(header[1]).toBe('00:00');
+    expect(header[24]).toBe('23:00');
+    expect(rows.map(row => row[0])).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+    expect(rows[2][1 + 5]).toBe('205');
+    expect(rows[6][24]).toBe('623');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test';
+
+import { DEFAULT_URL_STATE, DashboardUrlState, parseUrlState, serializeUrlState } from '../utils/urlState';
+
+describe('url state', () => {
+  it('round-trips every control', () => {
+    const state: DashboardUrlState = {
+      timeframe: 'custom',
+      granularity: '15m',
+      filter: ['ai', 'zeroEtv'],
+      intensity: 'mean',
+      lookback: 'range',
+      recencyWeighted: true,
+      sensitivity: 'high',
+      overlays: ['previous', 'baseline'],
+      dropSize: 5,
+      scroll: DEFAULT_URL_STATE.scroll,
+      range: { start: 1_700_000_000_000, end: 1_700_086_400_000 }
+    };
+
+    expect(parseUrlState(serializeUrlState(state, ''))).toEqual(state);
+  });
+
+  it('leaves defaults and unrelated params out of the way', () => {
+    expect(serializeUrlState(DEFAULT_URL_STATE, '?source=https%3A%2F%2Fexample.com%2Fstats.json'))
+      .toBe('?source=https%3A%2F%2Fexample.com%2Fstats.json');
+    expect(parseUrlState('')).toEqual(DEFAULT_URL_STATE);
+  });
+
+  it('reads the old single-choice filter values', () => {
+    expect(parseUrlState('?filter=zeroEtv').filter).toEqual(['zeroEtv']);
+    expect(parseUrlState('?filter=afa').filter).toEqual(['lastChance']);
+    expect(parseUrlState('?filter=all').filter).toEqual(DEFAULT_URL_STATE.filter);
+  });
+
+  it('falls back from malformed or inverted ranges', () => {
+    for (const query of ['?tf=custom&from=abc&to=123', '?tf=custom&from=200&to=100', '?tf=custom&from=100']) {
+      const state = parseUrlState(query);
+      expect(state.timeframe).toBe(DEFAULT_URL_STATE.timeframe);
+      expect(state.range).toBeNull();
+    }
+    // A range without the custom timeframe is ignored, and so is a chart-range lookback
+    const state = parseUrlState('?from=100&to=200&lb=range');
+    expect(state.range).toBeNull();
+    expect(state.lookback).toBe(DEFAULT_URL_STATE.lookback);
+  });
+});
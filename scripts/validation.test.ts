@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'bun:test';
+
+import { validateStatsData } from '../utils/validation';
+import { SchemaError } from '../services/errors';
+
+const meta = { totalItems: 10, updatedAt: new Date(0).toISOString() };
+
+describe('validateStatsData', () => {
+  it('sorts buckets and keeps the last duplicate', () => {
+    const { data, report } = validateStatsData({
+      meta,
+      history: [
+        { t: 2, ai: 1, last_chance: 0 },
+        { t: 1, ai: 2, last_chance: 0 },
+        { t: 2, ai: 5, last_chance: 1 }
+      ]
+    });
+
+    expect(data.history.map(item => item.t)).toEqual([1, 2]);
+    expect(data.history[1].ai).toBe(5);
+    expect(report).toEqual({ reordered: true, duplicatesRemoved: 1 });
+  });
+
+  it('rejects buckets with the wrong types', () => {
+    expect(() => validateStatsData({ meta, history: [{ t: '1', last_chance: 0 }] })).toThrow(SchemaError);
+    expect(() => validateStatsData({ meta: {}, history: [] })).toThrow(SchemaError);
+  });
+});
@@ -1,9 +1,95 @@
-import { StatsData } from '../types';
+import { HistoryItem, StatsData } from '../types';
+import { HttpStatusError, NetworkError, ParseError } from './errors';
+import { ValidationReport, isRepaired, validateStatsData, validateStatsDelta } from '../utils/validation';
 
-export const fetchStats = async (): Promise<StatsData> => {
-  const response = await fetch('https://vine-api.maarv.dev/stats.json');
+export const DEFAULT_STATS_URL = 'https://vine-api.maarv.dev/stats.json';
+
+/**
+ * Merges freshly fetched buckets into the cached history. Every cached bucket at or after the
+ * first incoming `t` is dropped, so a trailing bucket that the server revised gets replaced.
+ */
+export const mergeHistory = (cached: HistoryItem[], incoming: HistoryItem[]): HistoryItem[] => {
+  if (!incoming.length) return cached;
+  const firstIncoming = incoming[0].t;
+  let keep = cached.length;
+
+  while (keep > 0 && cached[keep - 1].t >= firstIncoming) {
+    keep -= 1;
+  }
+
+  return cached.slice(0, keep).concat(incoming);
+};
+
+const logRepairs = (report: ValidationReport) => {
+  if (!isRepaired(report)) return;
+  console.warn(
+    `[Validation] Repaired stats payload: ${report.reordered ? 'sorted buckets by t, ' : ''}` +
+    `removed ${report.duplicatesRemoved} duplicate bucket(s)`
+  );
+};
+
+const request = async (url: string): Promise<Response> => {
+  try {
+    return await fetch(url);
+  } catch (err) {
+    throw new NetworkError({ cause: err });
+  }
+};
+
+const readJson = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch (err) {
+    throw new ParseError({ cause: err });
+  }
+};
+
+const fetchFullStats = async (url: string): Promise<StatsData> => {
+  const response = await request(url);
   if (!response.ok) {
-    throw new Error('Failed to fetch stats');
+    throw new HttpStatusError(response.status);
   }
-  return response.json();
+
+  const { data, report } = validateStatsData(await readJson(response));
+  logRepairs(report);
+  return data;
+};
+
+/**
+ * Fetches the stats payload. When a previous payload is passed, only buckets from its last `t`
+ * onward are requested and merged in; servers that can't serve deltas get a full download instead.
+ */
+export const fetchStats = async (url: string, previous?: StatsData | null): Promise<StatsData> => {
+  const lastBucket = previous?.history[previous.history.length - 1];
+  if (!previous || !lastBucket) {
+    return fetchFullStats(url);
+  }
+
+  const deltaUrl = new URL(url, window.location.href);
+  deltaUrl.searchParams.set('since', String(lastBucket.t));
+  const response = await request(deltaUrl.toString());
+  if (!response.ok) {
+    return fetchFullStats(url);
+  }
+
+  const payload = await readJson(response);
+  if ((payload as { delta?: unknown } | null)?.delta !== true) {
+    // The server ignored `since` and sent the whole file
+    const { data, report } = validateStatsData(payload);
+    logRepairs(report);
+    return data;
+  }
+
+  const { data: delta, report } = validateStatsDelta(payload);
+  logRepairs(report);
+
+  if (delta.since > lastBucket.t) {
+    // The delta window starts after our last bucket, so merging would leave a hole
+    return fetchFullStats(url);
+  }
+
+  return {
+    meta: delta.meta,
+    history: mergeHistory(previous.history, delta.history)
+  };
 };
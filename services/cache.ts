@@ -0,0 +1,68 @@
+import { StatsData } from '../types';
+
+const DB_NAME = 'freevinesstats';
+const STORE_NAME = 'stats';
+
+// Bump whenever the HistoryItem shape changes so entries written by older builds are discarded
+export const CACHE_VERSION = 1;
+
+interface CachedStatsRecord {
+  version: number;
+  savedAt: number;
+  data: StatsData;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = createRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Returns the last payload persisted for a data source, or null when there is none, it was written under another
+ * cache version, or IndexedDB is unavailable (e.g. private browsing).
+ */
+export const loadCachedStats = async (sourceId: string): Promise<StatsData | null> => {
+  try {
+    const record = await runRequest<CachedStatsRecord | undefined>('readonly', store => store.get(sourceId));
+    if (!record) return null;
+
+    if (record.version !== CACHE_VERSION) {
+      await runRequest('readwrite', store => store.delete(sourceId));
+      return null;
+    }
+
+    return record.data;
+  } catch (err) {
+    console.warn('[Cache] Failed to read cached stats', err);
+    return null;
+  }
+};
+
+export const saveCachedStats = async (sourceId: string, data: StatsData): Promise<void> => {
+  const record: CachedStatsRecord = { version: CACHE_VERSION, savedAt: Date.now(), data };
+  try {
+    await runRequest('readwrite', store => store.put(record, sourceId));
+  } catch (err) {
+    console.warn('[Cache] Failed to persist stats', err);
+  }
+};
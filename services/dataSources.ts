@@ -0,0 +1,67 @@
+import { StatsData } from '../types';
+import { DEFAULT_STATS_URL, fetchStats } from './api';
+import { InvalidSourceError, ParseError } from './errors';
+import { isRepaired, validateStatsData } from '../utils/validation';
+
+export interface DataSource {
+  id: string;       // Stable key, also used for the offline cache
+  label: string;    // Short name shown in the header
+  live: boolean;    // Live sources are polled and cached; snapshots are loaded once
+  load: (previous?: StatsData | null) => Promise<StatsData>;
+}
+
+const SOURCE_QUERY_PARAM = 'source';
+
+export const createRemoteSource = (url: string = DEFAULT_STATS_URL, label: string = 'Live'): DataSource => ({
+  id: `remote:${url}`,
+  label,
+  live: true,
+  load: previous => fetchStats(url, previous)
+});
+
+/**
+ * Picks the remote source from `?source=<url>`, then the VITE_STATS_URL build variable, falling
+ * back to the public endpoint.
+ */
+export const getConfiguredSource = (): DataSource => {
+  const queryUrl = new URLSearchParams(window.location.search).get(SOURCE_QUERY_PARAM);
+  if (queryUrl) {
+    let host: string;
+    try {
+      host = new URL(queryUrl, window.location.href).host;
+    } catch (err) {
+      // Surfaces through the normal load error path instead of breaking startup
+      const error = new InvalidSourceError(queryUrl, { cause: err });
+      return { id: `invalid:${queryUrl}`, label: 'Invalid source', live: false, load: () => Promise.reject(error) };
+    }
+    return createRemoteSource(queryUrl, host || 'Custom');
+  }
+
+  const envUrl = import.meta.env.VITE_STATS_URL;
+  if (envUrl) {
+    return createRemoteSource(envUrl, 'Custom');
+  }
+
+  return createRemoteSource();
+};
+
+// Loads an archived `stats.json` picked from disk or dropped onto the page
+export const createFileSource = (file: File): DataSource => ({
+  id: `file:${file.name}:${file.lastModified}`,
+  label: file.name,
+  live: false,
+  load: async () => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await file.text());
+    } catch (err) {
+      throw new ParseError({ cause: err });
+    }
+
+    const { data, report } = validateStatsData(payload);
+    if (isRepaired(report)) {
+      console.warn(`[Validation] Repaired ${file.name}`, report);
+    }
+    return data;
+  }
+});
@@ -0,0 +1,73 @@
+export class StatsError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'StatsError';
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, aborted)
+export class NetworkError extends StatsError {
+  constructor(options?: ErrorOptions) {
+    super('Network request for stats failed', options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class HttpStatusError extends StatsError {
+  status: number;
+
+  constructor(status: number) {
+    super(`Stats request failed with HTTP ${status}`);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+// The body could not be decoded as JSON
+export class ParseError extends StatsError {
+  constructor(options?: ErrorOptions) {
+    super('Stats data is not valid JSON', options);
+    this.name = 'ParseError';
+  }
+}
+
+// The body is JSON but does not have the StatsData shape
+export class SchemaError extends StatsError {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Stats payload failed validation: ${issues.join('; ')}`);
+    this.name = 'SchemaError';
+    this.issues = issues;
+  }
+}
+
+// `?source=` is not a URL that can be fetched
+export class InvalidSourceError extends StatsError {
+  source: string;
+
+  constructor(source: string, options?: ErrorOptions) {
+    super(`Invalid stats source URL: ${source}`, options);
+    this.name = 'InvalidSourceError';
+    this.source = source;
+  }
+}
+
+export const describeStatsError = (err: unknown): string => {
+  if (err instanceof NetworkError) {
+    return 'Could not reach the stats server. Please check your connection.';
+  }
+  if (err instanceof HttpStatusError) {
+    return `The stats server responded with an error (HTTP ${err.status}). Please try again later.`;
+  }
+  if (err instanceof ParseError) {
+    return 'The stats data could not be read as JSON.';
+  }
+  if (err instanceof SchemaError) {
+    return 'The stats data is in an unexpected format.';
+  }
+  if (err instanceof InvalidSourceError) {
+    return `The data source "${err.source}" is not a valid URL.`;
+  }
+  return 'Failed to load stats.';
+};
@@ -17,20 +17,66 @@ export interface StatsData {
   history: HistoryItem[];
 }
 
+// Response to `stats.json?since=<t>`: only buckets with t >= since, including a revised trailing bucket
+export interface StatsDelta {
+  delta: true;
+  since: number;
+  meta: StatsMeta;
+  history: HistoryItem[];
+}
+
 export interface DashboardStats {
   lastHour: number;
   today: number;
   todayGrowth: number; // Percentage
-  todayMedian: number;
+  todayMedian: number; // Median of previous days up to the same local time of day, skipping days with gaps
   thisWeek: number;
   weekGrowth: number; // Percentage
-  weekMedian: number;
+  weekMedian: number;  // Median of previous weeks up to the same time of week, skipping weeks with gaps
+  sameDayLastWeek: number; // Same weekday last week, up to the same time of day
+  sameDayLastWeekGrowth: number; // Percentage
+  lastWeekToDate: number;  // Last week up to the same time of week
+  lastWeekGrowth: number;  // Percentage
   updatedAt: Date | null;
 }
 
-export type Timeframe = '1d' | '7d' | '1m' | '3m' | '1y';
+// Projection of a period's total; `actual` is what has arrived so far
+export interface PeriodForecast {
+  actual: number;
+  projected: number; // Median outcome
+  low: number;       // 10th percentile
+  high: number;      // 90th percentile
+}
+
+export interface StatsForecast {
+  today: PeriodForecast;
+  week: PeriodForecast;
+}
+
+// Expected total of a chart period that has not finished yet
+export interface ForecastPoint {
+  date: number;
+  expected: number;
+  low: number;
+  high: number;
+  label: string;
+  fullDate: string;
+}
+
+export type Timeframe = '1d' | '7d' | '1m' | '3m' | '1y' | 'custom';
 export type Granularity = '15m' | '1h' | '1d';
-export type DataFilter = 'all' | 'zeroEtv' | 'afa';
+export type Category = 'ai' | 'lastChance' | 'zeroEtv';
+// Selected categories: never empty, in ALL_CATEGORIES order
+export type DataFilter = Category[];
+export type IntensityMode = 'median' | 'mean';
+// Weeks of history behind the heat maps, or the chart's custom range
+export type HeatMapLookback = 4 | 12 | 26 | 52 | 'range';
+
+// Half-open time range [start, end) in ms
+export interface DateRange {
+  start: number;
+  end: number;
+}
 
 export interface ChartDataPoint {
   date: number;
@@ -40,13 +86,103 @@ export interface ChartDataPoint {
   total: number;
   label: string; // Formatted date for axis
   fullDate: string; // DDD, YYYY-MM-DD [HH:mm] for tooltip
+  anomalyScore: number | null; // Robust z-score vs the same weekday/hour; null without enough history
+  previous: number | null;     // Same bucket one comparison period earlier (see PeriodShift)
+  baseline: number | null;     // Typical value from the hourly median/mean profile
+  coverage: number | null;     // Share of the period's 15m buckets recorded; null outside the recorded span
+}
+
+// Wall-clock distance to the comparison period: whole days, or calendar months
+export interface PeriodShift {
+  unit: 'day' | 'month';
+  amount: number;
+}
+
+export type ChartOverlay = 'previous' | 'baseline';
+
+export type AnomalySensitivity = 'low' | 'medium' | 'high';
+
+// Distribution of one weekday/hour slot across the weeks of the heat map year
+export interface HourlyCellStats {
+  p10: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  max: number;
+  activeShare: number; // Fraction of weeks with at least one item, 0-1
+  samples: number;     // Weeks sampled
+  weekly: (number | null)[]; // The samples themselves, aligned with HeatMapData.sampleWeeks; null for gaps
 }
 
 export interface HeatMapData {
   weekly: Record<string, number>; // YYYY-MM-DD -> count
+  dailyCoverage: Record<string, number>; // YYYY-MM-DD -> share of buckets recorded, for incomplete days only
   hourlyMedian: number[][]; // 7 days x 24 hours
   hourlyMean: number[][];   // 7 days x 24 hours
+  hourlyStats: HourlyCellStats[][]; // 7 days x 24 hours
+  window: DateRange; // Span the statistics were taken over
+  sampleWeeks: string[]; // YYYY-MM-DD of each sampled week's Monday, oldest first
+  sampleWeights: number[]; // Weight of each sampled week in the hourly statistics; all 1 unless recency weighted
   maxDaily: number;
   maxHourlyMedian: number;
   maxHourlyMean: number;
 }
+
+// One upcoming local hour and how it has gone on the same weekday and hour in the sampled weeks
+export interface DropWindow {
+  start: number;       // UTC instant the local hour begins
+  day: number;         // Heat map row, Monday = 0
+  hour: number;
+  probability: number; // Weighted share of sampled weeks with at least the requested items, 0-1
+  expected: number;    // Mean items in the hour
+  samples: number;     // Weeks sampled
+}
+
+// Statistics of a run of chart buckets, such as the part of the pulse chart on screen
+export interface ChartSummary {
+  totals: CategoryTotals;      // Per category, after the data filter
+  total: number;               // Items under the data filter
+  buckets: number;             // Buckets with data; fully missing ones are left out of every statistic
+  missingBuckets: number;      // Including ones with no data expected, past the end of the data
+  activeBuckets: number;       // Buckets with at least one item
+  mean: number;                // Per bucket
+  median: number;
+  stdDev: number;
+  peak: { date: number; fullDate: string; total: number } | null;
+}
+
+// Recorded vs expected 15m buckets over the recent past, for the data-completeness indicator
+export interface DataCompleteness {
+  since: number;          // Start of the checked span
+  coverage: number;       // Share of expected buckets recorded, 0-1
+  missingBuckets: number;
+  gaps: DateRange[];      // Runs of missing buckets, newest first
+}
+
+export interface CategoryTotals {
+  ai: number;
+  lastChance: number;
+  zeroEtv: number;
+}
+
+export type RollupLevel = 'quarter' | 'hour' | 'day' | 'week' | 'month';
+
+// Contiguous, zero-filled periods; parallel arrays indexed by period
+export interface RollupSeries {
+  starts: number[];      // UTC start of each period
+  localStarts: number[]; // Wall-clock start in the index timezone, encoded as a UTC timestamp
+  ai: number[];
+  lastChance: number[];
+  zeroEtv: number[];
+  recorded: number[];    // 15m buckets present in the history
+  expected: number[];    // 15m buckets the period spans between the first and last recorded bucket
+}
+
+export interface RollupIndex {
+  timeZone: string;      // IANA zone used for hour/day/week/month boundaries
+  firstBucket: number;   // `t` of the first history item
+  lastBucket: number;    // `t` of the last history item
+  times: number[];       // `t` of every history item, ascending
+  prefix: { ai: number[]; lastChance: number[]; zeroEtv: number[] }; // Cumulative sums, length times.length + 1
+  rollups: Record<RollupLevel, RollupSeries>;
+}
@@ -0,0 +1,150 @@
+import { CategoryTotals, HistoryItem } from '../types';
+import { calculatePercentile, formatDateTime, getSameTimePreviousWeeks, sumHistoryRange } from './analytics';
+
+export type AlertMetric = 'total' | keyof CategoryTotals;
+export type AlertWindow = '15m' | '1h';
+
+interface AlertRuleBase {
+  id: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  window: AlertWindow;
+}
+
+// Fires when a single window reaches `min` items
+export interface ThresholdRule extends AlertRuleBase {
+  kind: 'threshold';
+  min: number;
+}
+
+// Fires when a window beats the given percentile of the same weekday/time over past weeks
+export interface PercentileRule extends AlertRuleBase {
+  kind: 'percentile';
+  percentile: number;
+}
+
+export type AlertRule = ThresholdRule | PercentileRule;
+export type AlertRuleDraft = Omit<ThresholdRule, 'id'> | Omit<PercentileRule, 'id'>;
+
+export interface AlertEvent {
+  key: string;      // `${ruleId}:${bucket}`, the dedupe key
+  ruleId: string;
+  bucket: number;   // `t` of the newest bucket in the window that fired
+  firedAt: number;
+  value: number;
+  message: string;
+}
+
+const QUARTER_MS = 15 * 60 * 1000;
+const HOUR_MS = 4 * QUARTER_MS;
+
+const WINDOW_MS: Record<AlertWindow, number> = { '15m': QUARTER_MS, '1h': HOUR_MS };
+
+// Past weeks sampled for percentile rules, and the fewest usable samples before they fire at all
+const PERCENTILE_WEEKS = 52;
+const MIN_PERCENTILE_SAMPLES = 4;
+
+// Buckets older than this are never alerted on, so opening a stale cache doesn't replay old drops
+export const MAX_ALERT_AGE_MS = 2 * HOUR_MS;
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  total: 'All items',
+  ai: 'AI',
+  lastChance: 'AFA',
+  zeroEtv: 'Zero ETV'
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'afa-burst', kind: 'threshold', enabled: false, metric: 'lastChance', window: '15m', min: 20 },
+  { id: 'busy-hour', kind: 'percentile', enabled: false, metric: 'total', window: '1h', percentile: 90 }
+];
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  const metric = ALERT_METRIC_LABELS[rule.metric];
+  const window = rule.window === '15m' ? 'one 15m bucket' : 'the last hour';
+  return rule.kind === 'threshold'
+    ? `${metric} ≥ ${rule.min} in ${window}`
+    : `${metric} in ${window} above p${rule.percentile} for this weekday/time`;
+};
+
+const getMetricValue = (totals: CategoryTotals, metric: AlertMetric): number =>
+  metric === 'total' ? totals.ai + totals.lastChance : totals[metric];
+
+// Sum of the window that ends with (and includes) the bucket starting at `bucket`
+const sumWindow = (history: HistoryItem[], bucket: number, window: AlertWindow, metric: AlertMetric): number => {
+  const end = bucket + QUARTER_MS;
+  return getMetricValue(sumHistoryRange(history, end - WINDOW_MS[window], end), metric);
+};
+
+const getPercentileThreshold = (
+  history: HistoryItem[],
+  rule: PercentileRule,
+  bucket: number,
+  timeZone: string
+): number | null => {
+  const end = bucket + QUARTER_MS;
+  const samples = getSameTimePreviousWeeks(end, PERCENTILE_WEEKS, timeZone)
+    .filter(sampleEnd => sampleEnd - WINDOW_MS[rule.window] >= history[0].t)
+    .map(sampleEnd => getMetricValue(sumHistoryRange(history, sampleEnd - WINDOW_MS[rule.window], sampleEnd), rule.metric));
+
+  if (samples.length < MIN_PERCENTILE_SAMPLES) return null;
+  return calculatePercentile(samples, rule.percentile);
+};
+
+/**
+ * Checks every enabled rule against the newest buckets and returns the alerts that have not
+ * fired yet. `firedKeys` holds the keys of earlier alerts so a bucket only ever fires once per rule.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  history: HistoryItem[],
+  timeZone: string,
+  firedKeys: Set<string>,
+  now: number = Date.now()
+): AlertEvent[] => {
+  if (!history.length) return [];
+  const events: AlertEvent[] = [];
+  const lastBucket = history[history.length - 1].t;
+
+  // 15m rules look at every recent bucket so a drop between two refreshes isn't missed;
+  // hourly rules only look at the trailing hour
+  const recentBuckets = history
+    .filter(item => item.t > lastBucket - HOUR_MS && item.t >= now - MAX_ALERT_AGE_MS)
+    .map(item => item.t);
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const buckets = rule.window === '15m' ? recentBuckets : recentBuckets.slice(-1);
+
+    for (const bucket of buckets) {
+      const key = `${rule.id}:${bucket}`;
+      if (firedKeys.has(key)) continue;
+
+      const value = sumWindow(history, bucket, rule.window, rule.metric);
+      const threshold = rule.kind === 'threshold'
+        ? rule.min
+        : getPercentileThreshold(history, rule, bucket, timeZone);
+      if (threshold === null) continue;
+
+      const fired = rule.kind === 'threshold' ? value >= threshold : value > threshold;
+      if (!fired) continue;
+
+      const comparison = rule.kind === 'threshold'
+        ? `≥ ${threshold}`
+        : `above p${rule.percentile} (${Math.round(threshold * 10) / 10})`;
+      const when = rule.window === '15m'
+        ? `in the ${formatDateTime(bucket, timeZone)} bucket`
+        : `in the hour to ${formatDateTime(bucket + QUARTER_MS, timeZone)}`;
+      events.push({
+        key,
+        ruleId: rule.id,
+        bucket,
+        firedAt: now,
+        value,
+        message: `${value} ${ALERT_METRIC_LABELS[rule.metric]} ${when}, ${comparison}`
+      });
+    }
+  }
+
+  return events;
+};
@@ -1,17 +1,41 @@
-import { HistoryItem, DashboardStats, ChartDataPoint, HeatMapData, Granularity, DataFilter } from '../types';
-
-const TIMEZONE = 'America/Los_Angeles';
+import {
+  HistoryItem,
+  DashboardStats,
+  ChartDataPoint,
+  ChartSummary,
+  HeatMapData,
+  HourlyCellStats,
+  Granularity,
+  DataCompleteness,
+  DataFilter,
+  DropWindow,
+  DateRange,
+  CategoryTotals,
+  RollupIndex,
+  RollupLevel,
+  RollupSeries,
+  AnomalySensitivity,
+  ForecastPoint,
+  PeriodForecast,
+  StatsForecast,
+  PeriodShift,
+  Timeframe
+} from '../types';
+
+// Vine drops launch at midnight Pacific, so that is the zone used until the user picks another
+export const DEFAULT_TIMEZONE = 'America/Los_Angeles';
 const MINUTE_MS = 60 * 1000;
 const HOUR_MS = 60 * MINUTE_MS;
 const DAY_MS = 24 * HOUR_MS;
 const WEEK_MS = 7 * DAY_MS;
+const QUARTER_MS = 15 * MINUTE_MS;
 const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 type OffsetSegment = { start: number; end: number; offset: number };
 type ChartDataPointRaw = Omit<ChartDataPoint, 'label' | 'fullDate'>;
 
-const TZ_PARTS_FORMATTER = new Intl.DateTimeFormat('en-US', {
-  timeZone: TIMEZONE,
+const PARTS_FORMAT_OPTIONS: Intl.DateTimeFormatOptions = {
   hour12: false,
   weekday: 'short',
   year: 'numeric',
@@ -20,18 +44,20 @@ const TZ_PARTS_FORMATTER = new Intl.DateTimeFormat('en-US', {
   hour: '2-digit',
   minute: '2-digit',
   second: '2-digit'
-});
+};
 
-const LOCAL_PARTS_FORMATTER = new Intl.DateTimeFormat('en-US', {
-  hour12: false,
-  weekday: 'short',
-  year: 'numeric',
-  month: '2-digit',
-  day: '2-digit',
-  hour: '2-digit',
-  minute: '2-digit',
-  second: '2-digit'
-});
+const TZ_PARTS_FORMATTER = new Intl.DateTimeFormat('en-US', { ...PARTS_FORMAT_OPTIONS, timeZone: DEFAULT_TIMEZONE });
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>([[DEFAULT_TIMEZONE, TZ_PARTS_FORMATTER]]);
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { ...PARTS_FORMAT_OPTIONS, timeZone });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
 
 const getTimeZoneOffsetMs = (ts: number, formatter: Intl.DateTimeFormat = TZ_PARTS_FORMATTER): number => {
   const parts = formatter.formatToParts(new Date(ts));
@@ -68,7 +94,8 @@ const getTimeZoneOffsetMs = (ts: number, formatter: Intl.DateTimeFormat = TZ_PAR
   }
 
   const asUTC = Date.UTC(year, month - 1, day, hour, minute, second);
-  return asUTC - ts;
+  // The formatter drops milliseconds, so compare against the whole second
+  return asUTC - Math.floor(ts / 1000) * 1000;
 };
 
 const findOffsetTransition = (start: number, end: number, offset: number, formatter: Intl.DateTimeFormat): number => {
@@ -141,23 +168,22 @@ const getUtcForLocal = (localTs: number, segments: OffsetSegment[]): number => {
   return localTs - (segments[0]?.offset ?? 0);
 };
 
-const pad2 = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
-
-const buildPartMap = (ts: number): Record<string, string> => {
-  const parts = TZ_PARTS_FORMATTER.formatToParts(new Date(ts));
-  const partMap: Record<string, string> = {};
+const getWeekStartLocal = (localTs: number): number => {
+  const dayStartLocal = Math.floor(localTs / DAY_MS) * DAY_MS;
+  const dayIndex = (new Date(dayStartLocal).getUTCDay() + 6) % 7;
+  return dayStartLocal - dayIndex * DAY_MS;
+};
 
-  for (const part of parts) {
-    if (part.type !== 'literal') {
-      partMap[part.type] = part.value;
-    }
-  }
+const pad2 = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
 
-  return partMap;
+// YYYY-MM-DD of a local (wall-clock as UTC) timestamp
+const formatLocalDateKey = (localTs: number): string => {
+  const d = new Date(localTs);
+  return `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}-${pad2(d.getUTCDate())}`;
 };
 
-const buildLocalPartMap = (ts: number): Record<string, string> => {
-  const parts = LOCAL_PARTS_FORMATTER.formatToParts(new Date(ts));
+const buildPartMap = (ts: number, timeZone: string): Record<string, string> => {
+  const parts = getPartsFormatter(timeZone).formatToParts(new Date(ts));
   const partMap: Record<string, string> = {};
 
   for (const part of parts) {
@@ -195,20 +221,66 @@ const getChartLabelParts = (partMap: Record<string, string>, granularity: Granul
   return { label, fullDate };
 };
 
-export const formatChartTickLabel = (ts: number, granularity: Granularity): string => {
+export const formatChartTickLabel = (ts: number, granularity: Granularity, timeZone: string = DEFAULT_TIMEZONE): string => {
   if (!Number.isFinite(ts)) return '';
-  // For hour/15m granularities, use local timezone; for daily, keep PST
-  const partMap = (granularity === '1h' || granularity === '15m') 
-    ? buildLocalPartMap(ts) 
-    : buildPartMap(ts);
-  return getChartLabelParts(partMap, granularity).label;
+  return getChartLabelParts(buildPartMap(ts, timeZone), granularity).label;
+};
+
+// Short display name such as "PST" or "GMT+2", taken at the given instant
+export const getTimeZoneLabel = (timeZone: string, at: number = Date.now()): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(at))
+    .find(p => p.type === 'timeZoneName');
+  return part?.value ?? timeZone;
 };
 
-export const getPstMidnightTimestamps = (startTs: number, endTs: number): number[] => {
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar date (YYYY-MM-DD) of an instant in the given zone
+export const formatDateKey = (ts: number, timeZone: string = DEFAULT_TIMEZONE): string => {
+  const partMap = buildPartMap(ts, timeZone);
+  return `${partMap.year}-${partMap.month}-${partMap.day}`;
+};
+
+// Short weekday name (Mon, Tue, ...) of an instant in the given zone
+export const formatWeekday = (ts: number, timeZone: string = DEFAULT_TIMEZONE): string =>
+  buildPartMap(ts, timeZone).weekday;
+
+// YYYY-MM-DD HH:mm of an instant in the given zone
+export const formatDateTime = (ts: number, timeZone: string = DEFAULT_TIMEZONE): string => {
+  const partMap = buildPartMap(ts, timeZone);
+  return `${partMap.year}-${partMap.month}-${partMap.day} ${partMap.hour}:${partMap.minute}`;
+};
+
+// Instant of local midnight that starts a YYYY-MM-DD date in the given zone
+export const getDateKeyStart = (dateKey: string, timeZone: string = DEFAULT_TIMEZONE): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const localMidnight = Date.UTC(year, month - 1, day);
+  const segments = buildOffsetSegments(localMidnight - 2 * DAY_MS, localMidnight + 2 * DAY_MS, getPartsFormatter(timeZone));
+  return getUtcForLocal(localMidnight, segments);
+};
+
+// The local calendar day `dateKey` as a UTC range, 23 or 25 hours long across DST changes
+export const getDateKeyRange = (dateKey: string, timeZone: string = DEFAULT_TIMEZONE): DateRange => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return {
+    start: getDateKeyStart(dateKey, timeZone),
+    end: getDateKeyStart(formatLocalDateKey(Date.UTC(year, month - 1, day + 1)), timeZone)
+  };
+};
+
+export const getMidnightTimestamps = (startTs: number, endTs: number, timeZone: string = DEFAULT_TIMEZONE): number[] => {
   if (!Number.isFinite(startTs) || !Number.isFinite(endTs)) return [];
   const start = Math.min(startTs, endTs);
   const end = Math.max(startTs, endTs);
-  const segments = buildOffsetSegments(start - DAY_MS, end + DAY_MS);
+  const segments = buildOffsetSegments(start - DAY_MS, end + DAY_MS, getPartsFormatter(timeZone));
   const startOffset = getOffsetAt(start, segments);
   const endOffset = getOffsetAt(end, segments);
   const startKey = Math.floor((start + startOffset) / DAY_MS);
@@ -226,29 +298,17 @@ export const getPstMidnightTimestamps = (startTs: number, endTs: number): number
   return midnights;
 };
 
-export const getPstWeekStartTimestamps = (startTs: number, endTs: number): number[] => {
+export const getWeekStartTimestamps = (startTs: number, endTs: number, timeZone: string = DEFAULT_TIMEZONE): number[] => {
   if (!Number.isFinite(startTs) || !Number.isFinite(endTs)) return [];
   const start = Math.min(startTs, endTs);
   const end = Math.max(startTs, endTs);
-  const segments = buildOffsetSegments(start - WEEK_MS, end + WEEK_MS);
+  const segments = buildOffsetSegments(start - WEEK_MS, end + WEEK_MS, getPartsFormatter(timeZone));
   const startOffset = getOffsetAt(start, segments);
   const endOffset = getOffsetAt(end, segments);
   const startLocal = start + startOffset;
   const endLocal = end + endOffset;
   const weekStarts: number[] = [];
 
-  const getWeekStartLocal = (localTs: number): number => {
-    const d = new Date(localTs);
-    const dayOfWeek = d.getUTCDay();
-    const dayIndex = (dayOfWeek + 6) % 7;
-    const hours = d.getUTCHours();
-    const minutes = d.getUTCMinutes();
-    const seconds = d.getUTCSeconds();
-    const ms = d.getUTCMilliseconds();
-    const dayStartLocal = localTs - (((hours * 60 + minutes) * 60 + seconds) * 1000 + ms);
-    return dayStartLocal - dayIndex * DAY_MS;
-  };
-
   let cursorLocal = getWeekStartLocal(startLocal);
   while (cursorLocal <= endLocal) {
     const utcWeekStart = getUtcForLocal(cursorLocal, segments);
@@ -261,12 +321,12 @@ export const getPstWeekStartTimestamps = (startTs: number, endTs: number): numbe
   return weekStarts;
 };
 
-export const getPstMonthStartTimestamps = (startTs: number, endTs: number): number[] => {
+export const getMonthStartTimestamps = (startTs: number, endTs: number, timeZone: string = DEFAULT_TIMEZONE): number[] => {
   if (!Number.isFinite(startTs) || !Number.isFinite(endTs)) return [];
   const start = Math.min(startTs, endTs);
   const end = Math.max(startTs, endTs);
   const buffer = 35 * DAY_MS;
-  const segments = buildOffsetSegments(start - buffer, end + buffer);
+  const segments = buildOffsetSegments(start - buffer, end + buffer, getPartsFormatter(timeZone));
   const startOffset = getOffsetAt(start, segments);
   const endOffset = getOffsetAt(end, segments);
   const startLocal = start + startOffset;
@@ -291,11 +351,24 @@ export const getPstMonthStartTimestamps = (startTs: number, endTs: number): numb
   return monthStarts;
 };
 
-const formatChartPoints = (raw: ChartDataPointRaw[], granularity: Granularity): ChartDataPoint[] => {
+// Wall-clock parts of a local timestamp (see RollupSeries.localStarts) without going through Intl
+const buildPartMapFromLocal = (localTs: number): Record<string, string> => {
+  const d = new Date(localTs);
+  return {
+    weekday: WEEKDAY_SHORT[d.getUTCDay()],
+    year: String(d.getUTCFullYear()),
+    month: pad2(d.getUTCMonth() + 1),
+    day: pad2(d.getUTCDate()),
+    hour: pad2(d.getUTCHours()),
+    minute: pad2(d.getUTCMinutes())
+  };
+};
+
+const formatChartPoints = (raw: ChartDataPointRaw[], localStarts: number[], granularity: Granularity): ChartDataPoint[] => {
   if (raw.length === 0) return [];
 
-  return raw.map(point => {
-    const partMap = buildPartMap(point.date);
+  return raw.map((point, i) => {
+    const partMap = buildPartMapFromLocal(localStarts[i]);
     const { label, fullDate } = getChartLabelParts(partMap, granularity);
 
     return {
@@ -313,10 +386,316 @@ const calculateMedian = (values: number[]): number => {
   return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
 };
 
+// Linear interpolation between closest ranks; `percentile` is 0-100
+export const calculatePercentile = (values: number[], percentile: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(percentile, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Median absolute deviation, the spread counterpart of the median
+const calculateMad = (values: number[], median: number): number =>
+  calculateMedian(values.map(value => Math.abs(value - median)));
+
 const getAiCount = (item: HistoryItem): number => item.ai ?? item.encore ?? 0;
 const getZeroEtvCount = (item: HistoryItem): number => item.zero_etv ?? 0;
 
-export const processStats = (history: HistoryItem[], updatedAtStr: string): DashboardStats => {
+export const getBucketTotals = (item: HistoryItem): CategoryTotals => ({
+  ai: getAiCount(item),
+  lastChance: item.last_chance,
+  zeroEtv: getZeroEtvCount(item)
+});
+
+export const ALL_CATEGORIES: DataFilter = ['ai', 'lastChance', 'zeroEtv'];
+
+/**
+ * Items counted under a category selection. Zero-ETV items are also AI or AFA items, and the
+ * data doesn't say which, so zero-ETV only counts on its own: once AI or AFA is selected the
+ * total is the sum of those and zero-ETV adds nothing.
+ */
+const applyFilter = (ai: number, lastChance: number, zeroEtv: number, filter: DataFilter): number => {
+  const withAi = filter.includes('ai');
+  const withAfa = filter.includes('lastChance');
+  if (!withAi && !withAfa) return filter.includes('zeroEtv') ? zeroEtv : 0;
+  return (withAi ? ai : 0) + (withAfa ? lastChance : 0);
+};
+
+export const countCategories = (totals: CategoryTotals, filter: DataFilter): number =>
+  applyFilter(totals.ai, totals.lastChance, totals.zeroEtv, filter);
+
+const GRANULARITY_LEVEL: Record<Granularity, RollupLevel> = {
+  '15m': 'quarter',
+  '1h': 'hour',
+  '1d': 'day'
+};
+
+const createSeries = (length: number): RollupSeries => ({
+  starts: new Array(length).fill(0),
+  localStarts: new Array(length).fill(0),
+  ai: new Array(length).fill(0),
+  lastChance: new Array(length).fill(0),
+  zeroEtv: new Array(length).fill(0),
+  recorded: new Array(length).fill(0),
+  expected: new Array(length).fill(0)
+});
+
+const getMonthKey = (localTs: number): number => {
+  const d = new Date(localTs);
+  return d.getUTCFullYear() * 12 + d.getUTCMonth();
+};
+
+// First index in a sorted array whose value is >= target
+const lowerBound = (values: number[], target: number): number => {
+  let lo = 0;
+  let hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] < target) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+};
+
+/**
+ * Builds the per-dataset index: prefix sums over the raw buckets plus contiguous 15m, hourly,
+ * daily, weekly (Monday start) and monthly rollups in `timeZone`. Series run from the first bucket
+ * to now, so charts show empty periods up to the present.
+ */
+export const buildRollupIndex = (history: HistoryItem[], timeZone: string = DEFAULT_TIMEZONE): RollupIndex => {
+  const n = history.length;
+  const times: number[] = new Array(n);
+  const prefix = {
+    ai: new Array(n + 1).fill(0),
+    lastChance: new Array(n + 1).fill(0),
+    zeroEtv: new Array(n + 1).fill(0)
+  };
+
+  if (!n) {
+    return {
+      timeZone,
+      firstBucket: 0,
+      lastBucket: 0,
+      times,
+      prefix,
+      rollups: {
+        quarter: createSeries(0),
+        hour: createSeries(0),
+        day: createSeries(0),
+        week: createSeries(0),
+        month: createSeries(0)
+      }
+    };
+  }
+
+  const formatter = getPartsFormatter(timeZone);
+  const firstBucket = history[0].t;
+  const lastBucket = history[n - 1].t;
+  const end = Math.max(Date.now(), lastBucket);
+  // Months can start up to 31 days before the first bucket
+  const segments = buildOffsetSegments(firstBucket - 35 * DAY_MS, end + 35 * DAY_MS, formatter);
+  const firstLocal = firstBucket + getOffsetAt(firstBucket, segments);
+  const endLocal = end + getOffsetAt(end, segments);
+
+  // Zones such as Asia/Kathmandu are offset by a fraction of an hour, so hours are shifted to
+  // start where local time reads :00, i.e. at UTC instants congruent to -offset
+  const hourShift = ((-getOffsetAt(firstBucket, segments) % HOUR_MS) + HOUR_MS) % HOUR_MS;
+  const quarterKey0 = Math.floor(firstBucket / QUARTER_MS);
+  const hourKey0 = Math.floor((firstBucket - hourShift) / HOUR_MS);
+  const dayKey0 = Math.floor(firstLocal / DAY_MS);
+  const weekStart0 = getWeekStartLocal(firstLocal);
+  const monthKey0 = getMonthKey(firstLocal);
+
+  const quarter = createSeries(Math.floor(end / QUARTER_MS) - quarterKey0 + 1);
+  const hour = createSeries(Math.floor((end - hourShift) / HOUR_MS) - hourKey0 + 1);
+  const day = createSeries(Math.floor(endLocal / DAY_MS) - dayKey0 + 1);
+  const week = createSeries(Math.round((getWeekStartLocal(endLocal) - weekStart0) / WEEK_MS) + 1);
+  const month = createSeries(getMonthKey(endLocal) - monthKey0 + 1);
+
+  const fillFixedStarts = (series: RollupSeries, start: number, step: number) => {
+    const offsetIndex = { i: 0 };
+    for (let i = 0; i < series.starts.length; i++) {
+      const ts = start + i * step;
+      series.starts[i] = ts;
+      series.localStarts[i] = ts + getOffsetForTs(ts, segments, offsetIndex);
+    }
+  };
+
+  const fillLocalStarts = (series: RollupSeries, getLocalStart: (i: number) => number) => {
+    for (let i = 0; i < series.starts.length; i++) {
+      const localStart = getLocalStart(i);
+      series.localStarts[i] = localStart;
+      series.starts[i] = getUtcForLocal(localStart, segments);
+    }
+  };
+
+  fillFixedStarts(quarter, quarterKey0 * QUARTER_MS, QUARTER_MS);
+  fillFixedStarts(hour, hourKey0 * HOUR_MS + hourShift, HOUR_MS);
+  fillLocalStarts(day, i => (dayKey0 + i) * DAY_MS);
+  fillLocalStarts(week, i => weekStart0 + i * WEEK_MS);
+  fillLocalStarts(month, i => Date.UTC(Math.floor(monthKey0 / 12), (monthKey0 % 12) + i, 1));
+
+  // Buckets each period should hold, counting only the span between the first and last recorded bucket
+  const recordedEnd = lastBucket + QUARTER_MS;
+  for (const series of [quarter, hour, day, week, month]) {
+    for (let i = 0; i < series.starts.length; i++) {
+      const periodEnd = i + 1 < series.starts.length ? series.starts[i + 1] : recordedEnd;
+      const span = Math.min(periodEnd, recordedEnd) - Math.max(series.starts[i], firstBucket);
+      series.expected[i] = Math.max(Math.round(span / QUARTER_MS), 0);
+    }
+  }
+
+  const offsetIndex = { i: 0 };
+  const add = (series: RollupSeries, i: number, ai: number, lastChance: number, zeroEtv: number) => {
+    series.ai[i] += ai;
+    series.lastChance[i] += lastChance;
+    series.zeroEtv[i] += zeroEtv;
+    series.recorded[i] += 1;
+  };
+
+  for (let k = 0; k < n; k++) {
+    const item = history[k];
+    const t = item.t;
+    const ai = getAiCount(item);
+    const lastChance = item.last_chance;
+    const zeroEtv = getZeroEtvCount(item);
+
+    times[k] = t;
+    prefix.ai[k + 1] = prefix.ai[k] + ai;
+    prefix.lastChance[k + 1] = prefix.lastChance[k] + lastChance;
+    prefix.zeroEtv[k + 1] = prefix.zeroEtv[k] + zeroEtv;
+
+    const localTs = t + getOffsetForTs(t, segments, offsetIndex);
+    add(quarter, Math.floor(t / QUARTER_MS) - quarterKey0, ai, lastChance, zeroEtv);
+    add(hour, Math.floor((t - hourShift) / HOUR_MS) - hourKey0, ai, lastChance, zeroEtv);
+    add(day, Math.floor(localTs / DAY_MS) - dayKey0, ai, lastChance, zeroEtv);
+    add(week, Math.round((getWeekStartLocal(localTs) - weekStart0) / WEEK_MS), ai, lastChance, zeroEtv);
+    add(month, getMonthKey(localTs) - monthKey0, ai, lastChance, zeroEtv);
+  }
+
+  return {
+    timeZone,
+    firstBucket,
+    lastBucket,
+    times,
+    prefix,
+    rollups: { quarter, hour, day, week, month }
+  };
+};
+
+// Category totals for buckets with start <= t < end, in O(log n)
+export const sumRange = (index: RollupIndex, start: number, end: number): CategoryTotals => {
+  const from = lowerBound(index.times, start);
+  const to = Math.max(from, lowerBound(index.times, end));
+  return {
+    ai: index.prefix.ai[to] - index.prefix.ai[from],
+    lastChance: index.prefix.lastChance[to] - index.prefix.lastChance[from],
+    zeroEtv: index.prefix.zeroEtv[to] - index.prefix.zeroEtv[from]
+  };
+};
+
+// First history index whose bucket starts at or after `target`
+export const lowerBoundHistory = (history: HistoryItem[], target: number): number => {
+  let lo = 0;
+  let hi = history.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (history[mid].t < target) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+};
+
+// Category totals for raw buckets with start <= t < end, for callers that have no index
+export const sumHistoryRange = (history: HistoryItem[], start: number, end: number): CategoryTotals => {
+  const totals: CategoryTotals = { ai: 0, lastChance: 0, zeroEtv: 0 };
+  for (let i = lowerBoundHistory(history, start); i < history.length && history[i].t < end; i++) {
+    totals.ai += getAiCount(history[i]);
+    totals.lastChance += history[i].last_chance;
+    totals.zeroEtv += getZeroEtvCount(history[i]);
+  }
+  return totals;
+};
+
+// Local hour of day (0-23) of each instant; `timestamps` must be in ascending order
+export const getLocalHours = (timestamps: number[], timeZone: string = DEFAULT_TIMEZONE): number[] => {
+  if (!timestamps.length) return [];
+  const segments = buildOffsetSegments(timestamps[0] - DAY_MS, timestamps[timestamps.length - 1] + DAY_MS, getPartsFormatter(timeZone));
+  const indexRef = { i: 0 };
+  return timestamps.map(ts => new Date(ts + getOffsetForTs(ts, segments, indexRef)).getUTCHours());
+};
+
+/**
+ * Instants with the same local weekday and time of day as `ts` in each of the previous `weeks`
+ * weeks, most recent first. Across a DST change these are not exact multiples of 7 days apart.
+ */
+export const getSameTimePreviousWeeks = (ts: number, weeks: number, timeZone: string = DEFAULT_TIMEZONE): number[] => {
+  const segments = buildOffsetSegments(ts - (weeks + 1) * WEEK_MS, ts + DAY_MS, getPartsFormatter(timeZone));
+  return getSameTimeWeeksBefore(ts, weeks, segments);
+};
+
+// As above, with offset segments the caller already built to cover the whole span
+const getSameTimeWeeksBefore = (ts: number, weeks: number, segments: OffsetSegment[]): number[] => {
+  const localTs = ts + getOffsetAt(ts, segments);
+  const instants: number[] = [];
+  for (let k = 1; k <= weeks; k++) {
+    instants.push(getUtcForLocal(localTs - k * WEEK_MS, segments));
+  }
+  return instants;
+};
+
+// Periods of a rollup whose start falls in [start, end), sliced without rescanning the history
+export const getRollupSeries = (
+  index: RollupIndex,
+  level: RollupLevel,
+  start: number = -Infinity,
+  end: number = Infinity
+): RollupSeries => {
+  const series = index.rollups[level];
+  const from = lowerBound(series.starts, start);
+  const to = Math.max(from, lowerBound(series.starts, end));
+  return {
+    starts: series.starts.slice(from, to),
+    localStarts: series.localStarts.slice(from, to),
+    ai: series.ai.slice(from, to),
+    lastChance: series.lastChance.slice(from, to),
+    zeroEtv: series.zeroEtv.slice(from, to),
+    recorded: series.recorded.slice(from, to),
+    expected: series.expected.slice(from, to)
+  };
+};
+
+// Periods recording less than this share of their buckets are gaps, left out of medians and means
+export const MIN_COVERAGE = 0.9;
+
+// Share of a period's expected buckets that were recorded; null when it expects none
+const getCoverage = (series: RollupSeries, i: number): number | null =>
+  series.expected[i] > 0 ? Math.min(series.recorded[i] / series.expected[i], 1) : null;
+
+const isComplete = (series: RollupSeries, i: number): boolean => (getCoverage(series, i) ?? 0) >= MIN_COVERAGE;
+
+// Percentage change from `baseline`; an empty baseline counts as +100%
+const getGrowth = (value: number, baseline: number): number =>
+  baseline === 0 ? 100 : Math.round(((value - baseline) / baseline) * 100);
+
+/**
+ * Headline numbers for the stat cards. Today and this week are compared with previous days and
+ * weeks cut off at the same local time of day / time of week, so partial periods compare fairly.
+ */
+export const processStats = (
+  history: HistoryItem[],
+  updatedAtStr: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+  filter: DataFilter = ALL_CATEGORIES
+): DashboardStats => {
   if (!history.length) {
     return {
       lastHour: 0,
@@ -326,6 +705,10 @@ export const processStats = (history: HistoryItem[], updatedAtStr: string): Dash
       thisWeek: 0,
       weekGrowth: 0,
       weekMedian: 0,
+      sameDayLastWeek: 0,
+      sameDayLastWeekGrowth: 0,
+      lastWeekToDate: 0,
+      lastWeekGrowth: 0,
       updatedAt: null
     };
   }
@@ -334,37 +717,34 @@ export const processStats = (history: HistoryItem[], updatedAtStr: string): Dash
   const nowTs = Date.now();
   const rangeStart = Math.min(history[0].t, nowTs) - WEEK_MS;
   const rangeEnd = Math.max(history[history.length - 1].t, nowTs) + WEEK_MS;
-  const segments = buildOffsetSegments(rangeStart, rangeEnd);
+  const segments = buildOffsetSegments(rangeStart, rangeEnd, getPartsFormatter(timeZone));
   const nowOffset = getOffsetAt(nowTs, segments);
   const localNow = nowTs + nowOffset;
-  const getWeekStartLocal = (localTs: number): number => {
-    const d = new Date(localTs);
-    const dayOfWeek = d.getUTCDay();
-    const dayIndex = (dayOfWeek + 6) % 7;
-    const hours = d.getUTCHours();
-    const minutes = d.getUTCMinutes();
-    const seconds = d.getUTCSeconds();
-    const ms = d.getUTCMilliseconds();
-    const dayStartLocal = localTs - (((hours * 60 + minutes) * 60 + seconds) * 1000 + ms);
-    return dayStartLocal - dayIndex * DAY_MS;
-  };
   const todayKey = Math.floor(localNow / DAY_MS);
   const currentWeekStartLocal = getWeekStartLocal(localNow);
   const currentWeekKey = Math.floor(currentWeekStartLocal / WEEK_MS);
   const todayStartTs = getUtcForLocal(todayKey * DAY_MS, segments);
   const weekStartTs = getUtcForLocal(currentWeekStartLocal, segments);
   const oneHourAgoTs = nowTs - HOUR_MS;
+  // Past days and weeks only count buckets up to the current local time of day / time of week
+  const nowTimeOfDay = localNow - todayKey * DAY_MS;
+  const nowTimeOfWeek = localNow - currentWeekStartLocal;
 
   let lastHour = 0;
   let today = 0;
   let thisWeek = 0;
+  let sameDayLastWeek = 0;
+  let lastWeekToDate = 0;
   const dailyTotals: Record<number, number> = {};
   const weeklyTotals: Record<number, number> = {};
+  // Buckets recorded per past day/week, so periods with gaps can be left out of the medians
+  const dailyRecorded: Record<number, number> = {};
+  const weeklyRecorded: Record<number, number> = {};
   const offsetIndex = { i: 0 };
 
   for (const item of history) {
     const t = item.t;
-    const total = getAiCount(item) + item.last_chance;
+    const total = applyFilter(getAiCount(item), item.last_chance, getZeroEtvCount(item), filter);
 
     if (t > oneHourAgoTs) lastHour += total;
     if (t >= todayStartTs) today += total;
@@ -376,281 +756,622 @@ export const processStats = (history: HistoryItem[], updatedAtStr: string): Dash
     const weekStartLocal = getWeekStartLocal(localTs);
     const weekKey = Math.floor(weekStartLocal / WEEK_MS);
 
-    if (dayKey < todayKey) {
+    if (dayKey < todayKey && localTs - dayKey * DAY_MS <= nowTimeOfDay) {
       dailyTotals[dayKey] = (dailyTotals[dayKey] || 0) + total;
+      dailyRecorded[dayKey] = (dailyRecorded[dayKey] || 0) + 1;
+      if (dayKey === todayKey - 7) sameDayLastWeek += total;
     }
 
-    if (weekKey < currentWeekKey) {
+    if (weekKey < currentWeekKey && localTs - weekStartLocal <= nowTimeOfWeek) {
       weeklyTotals[weekKey] = (weeklyTotals[weekKey] || 0) + total;
+      weeklyRecorded[weekKey] = (weeklyRecorded[weekKey] || 0) + 1;
+      if (weekKey === currentWeekKey - 1) lastWeekToDate += total;
     }
   }
 
-  const dailyMedian = Math.round(calculateMedian(Object.values(dailyTotals)));
-  const todayGrowth = dailyMedian === 0 ? 100 : Math.round(((today - dailyMedian) / dailyMedian) * 100);
-
-  const weeklyMedian = Math.round(calculateMedian(Object.values(weeklyTotals)));
-  const weekGrowth = weeklyMedian === 0 ? 100 : Math.round(((thisWeek - weeklyMedian) / weeklyMedian) * 100);
+  const completeTotals = (totals: Record<number, number>, recorded: Record<number, number>, elapsed: number) => {
+    const expected = Math.floor(elapsed / QUARTER_MS) + 1;
+    return Object.keys(totals).filter(key => recorded[+key] >= expected * MIN_COVERAGE).map(key => totals[+key]);
+  };
+  const dailyMedian = Math.round(calculateMedian(completeTotals(dailyTotals, dailyRecorded, nowTimeOfDay)));
+  const weeklyMedian = Math.round(calculateMedian(completeTotals(weeklyTotals, weeklyRecorded, nowTimeOfWeek)));
 
   return {
     lastHour,
     today,
-    todayGrowth,
+    todayGrowth: getGrowth(today, dailyMedian),
     todayMedian: dailyMedian,
     thisWeek,
-    weekGrowth,
+    weekGrowth: getGrowth(thisWeek, weeklyMedian),
     weekMedian: weeklyMedian,
+    sameDayLastWeek,
+    sameDayLastWeekGrowth: getGrowth(today, sameDayLastWeek),
+    lastWeekToDate,
+    lastWeekGrowth: getGrowth(thisWeek, lastWeekToDate),
     updatedAt
   };
 };
 
-export const processChartData = (history: HistoryItem[], granularity: Granularity, filter: DataFilter = 'all'): ChartDataPoint[] => {
-  if (!history.length) return [];
+const getFilteredTotal = (series: RollupSeries, i: number, filter: DataFilter): number =>
+  applyFilter(series.ai[i], series.lastChance[i], series.zeroEtv[i], filter);
 
-  const endTime = Math.max(Date.now(), history[history.length - 1].t);
-  const intervalMs = granularity === '15m' ? 15 * MINUTE_MS : granularity === '1h' ? HOUR_MS : DAY_MS;
-  const results: ChartDataPointRaw[] = [];
+// Scales MAD so the score reads like a z-score under a normal distribution (Iglewicz & Hoaglin)
+const MAD_SCALE = 0.6745;
+// Counts are whole items, so a slot whose MAD is 0 is treated as varying by at least one item
+const MIN_MAD = 1;
+const MIN_ANOMALY_SAMPLES = 4;
 
-  if (granularity === '1d') {
-    const segments = buildOffsetSegments(history[0].t - DAY_MS, endTime + DAY_MS);
-    const startOffset = getOffsetAt(history[0].t, segments);
-    const endOffset = getOffsetAt(endTime, segments);
-    const startKey = Math.floor((history[0].t + startOffset) / DAY_MS);
-    const endKey = Math.floor((endTime + endOffset) / DAY_MS);
-    const dayKeyToStart: number[] = new Array(endKey - startKey + 1);
-
-    for (let key = startKey; key <= endKey; key++) {
-      const localMidnight = key * DAY_MS;
-      let bucketStart = localMidnight - segments[0].offset;
-
-      for (const segment of segments) {
-        const candidate = localMidnight - segment.offset;
-        if (candidate >= segment.start && candidate < segment.end) {
-          bucketStart = candidate;
-          break;
-        }
-      }
-
-      dayKeyToStart[key - startKey] = bucketStart;
-    }
+// Score at or above which a bucket is flagged as a surge
+export const ANOMALY_THRESHOLDS: Record<AnomalySensitivity, number> = {
+  low: 5,
+  medium: 3.5,
+  high: 2.5
+};
 
-    let cursorKey = startKey;
-    let historyIndex = 0;
-    const offsetIndex = { i: 0 };
+// Weekday/hour slot of a local timestamp (0-167, Monday first); daily buckets only use the weekday
+const getBaselineSlot = (localTs: number, level: RollupLevel): number => {
+  const d = new Date(localTs);
+  const dayIndex = (d.getUTCDay() + 6) % 7;
+  return level === 'day' ? dayIndex : dayIndex * 24 + d.getUTCHours();
+};
 
-    while (cursorKey <= endKey) {
-      let ai = 0;
-      let lastChance = 0;
-      let zeroEtv = 0;
-
-      while (historyIndex < history.length) {
-        const item = history[historyIndex];
-        const offset = getOffsetForTs(item.t, segments, offsetIndex);
-        const itemKey = Math.floor((item.t + offset) / DAY_MS);
-        if (itemKey !== cursorKey) break;
-
-        let aiToAdd = getAiCount(item);
-        let lastChanceToAdd = item.last_chance;
-        let zeroEtvToAdd = getZeroEtvCount(item);
-
-        if (filter === 'zeroEtv') {
-          aiToAdd = 0;
-          lastChanceToAdd = 0;
-        } else if (filter === 'afa') {
-          aiToAdd = 0;
-          zeroEtvToAdd = 0;
-        }
-
-        ai += aiToAdd;
-        lastChance += lastChanceToAdd;
-        zeroEtv += zeroEtvToAdd;
-        historyIndex += 1;
-      }
+/**
+ * Robust z-scores for every period of `series`, each compared with the median and MAD of the
+ * same weekday/hour slot over the last year of `level` periods.
+ */
+const scoreAnomalies = (index: RollupIndex, level: RollupLevel, filter: DataFilter, series: RollupSeries): (number | null)[] => {
+  const baselineSeries = index.rollups[level];
+  const from = lowerBound(baselineSeries.starts, index.lastBucket - 365 * DAY_MS);
+  const to = lowerBound(baselineSeries.starts, index.lastBucket + 1);
+  const samples: number[][] = Array(7 * 24).fill(0).map(() => []);
+
+  for (let i = from; i < to; i++) {
+    if (!isComplete(baselineSeries, i)) continue;
+    samples[getBaselineSlot(baselineSeries.localStarts[i], level)].push(getFilteredTotal(baselineSeries, i, filter));
+  }
 
-      results.push({
-        date: dayKeyToStart[cursorKey - startKey],
-        ai,
-        lastChance,
-        zeroEtv,
-        total: ai + lastChance
-      });
+  const baselines = samples.map(values => {
+    if (values.length < MIN_ANOMALY_SAMPLES) return null;
+    const median = calculateMedian(values);
+    return { median, mad: Math.max(calculateMad(values, median), MIN_MAD) };
+  });
 
-      cursorKey += 1;
-    }
+  return series.starts.map((start, i) => {
+    const baseline = baselines[getBaselineSlot(series.localStarts[i], level)];
+    if (!baseline || start > index.lastBucket || !isComplete(series, i)) return null;
+    const score = (MAD_SCALE * (getFilteredTotal(series, i, filter) - baseline.median)) / baseline.mad;
+    return Math.round(score * 10) / 10;
+  });
+};
 
-    return formatChartPoints(results, granularity);
+// How far back the "previous period" overlay looks for each chart timeframe
+export const getComparisonShift = (timeframe: Timeframe, range: DateRange | null): PeriodShift => {
+  switch (timeframe) {
+    case '1d': return { unit: 'day', amount: 1 };
+    case '7d': return { unit: 'day', amount: 7 };
+    case '1m': return { unit: 'month', amount: 1 };
+    case '3m': return { unit: 'month', amount: 3 };
+    case '1y': return { unit: 'month', amount: 12 };
+    case 'custom': return { unit: 'day', amount: range ? Math.max(Math.ceil((range.end - range.start) / DAY_MS), 1) : 1 };
+    default: return { unit: 'day', amount: 1 };
   }
+};
 
-  let cursor = Math.floor(history[0].t / intervalMs) * intervalMs;
-  const endBucket = Math.floor(endTime / intervalMs) * intervalMs;
-  let historyIndex = 0;
-
-  while (cursor <= endBucket) {
-    let ai = 0;
-    let lastChance = 0;
-    let zeroEtv = 0;
-    const bucketEnd = cursor + intervalMs;
+// Moves a wall-clock timestamp back by whole days or calendar months, clamping to the month end
+const shiftLocalBack = (localTs: number, shift: PeriodShift): number => {
+  if (shift.unit === 'day') return localTs - shift.amount * DAY_MS;
+  const d = new Date(localTs);
+  const target = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() - shift.amount, 1);
+  const targetDate = new Date(target);
+  const daysInMonth = new Date(Date.UTC(targetDate.getUTCFullYear(), targetDate.getUTCMonth() + 1, 0)).getUTCDate();
+  return target + (Math.min(d.getUTCDate(), daysInMonth) - 1) * DAY_MS + (localTs % DAY_MS);
+};
 
-    while (historyIndex < history.length && history[historyIndex].t < bucketEnd) {
-      const item = history[historyIndex];
+export interface ChartOverlayOptions {
+  shift?: PeriodShift | null; // Source of the previous-period values
+  profile?: number[][] | null; // 7x24 hourly profile (Monday first) used for the baseline
+}
+
+// Typical value of a period from an hourly profile, scaled to the chart granularity
+const getProfileValue = (profile: number[][], localTs: number, granularity: Granularity): number => {
+  const d = new Date(localTs);
+  const row = profile[(d.getUTCDay() + 6) % 7];
+  if (!row) return 0;
+  if (granularity === '1d') return Math.round(row.reduce((sum, value) => sum + value, 0) * 10) / 10;
+  const hourly = row[d.getUTCHours()] ?? 0;
+  return granularity === '15m' ? Math.round((hourly / 4) * 10) / 10 : hourly;
+};
 
-      if (item.t >= cursor) {
-        let aiToAdd = getAiCount(item);
-        let lastChanceToAdd = item.last_chance;
-        let zeroEtvToAdd = getZeroEtvCount(item);
+export const processChartData = (
+  index: RollupIndex,
+  granularity: Granularity,
+  filter: DataFilter = ALL_CATEGORIES,
+  range: DateRange | null = null,
+  overlays: ChartOverlayOptions = {}
+): ChartDataPoint[] => {
+  const level = GRANULARITY_LEVEL[granularity];
+  const fullSeries = index.rollups[level];
+  const series = range
+    ? getRollupSeries(index, level, range.start, range.end)
+    : fullSeries;
+  const anomalyScores = scoreAnomalies(index, level, filter, series);
+  const results: ChartDataPointRaw[] = new Array(series.starts.length);
+
+  // Wall-clock start -> period, for looking up the previous period; the first wins on DST repeats
+  let periodByLocalStart: Map<number, number> | null = null;
+  if (overlays.shift) {
+    periodByLocalStart = new Map();
+    for (let i = 0; i < fullSeries.localStarts.length; i++) {
+      if (!periodByLocalStart.has(fullSeries.localStarts[i])) periodByLocalStart.set(fullSeries.localStarts[i], i);
+    }
+  }
 
-        if (filter === 'zeroEtv') {
-          aiToAdd = 0;
-          lastChanceToAdd = 0;
-        } else if (filter === 'afa') {
-          aiToAdd = 0;
-          zeroEtvToAdd = 0;
-        }
+  for (let i = 0; i < series.starts.length; i++) {
+    const ai = filter.includes('ai') ? series.ai[i] : 0;
+    const lastChance = filter.includes('lastChance') ? series.lastChance[i] : 0;
+    const zeroEtv = filter.includes('zeroEtv') ? series.zeroEtv[i] : 0;
 
-        ai += aiToAdd;
-        lastChance += lastChanceToAdd;
-        zeroEtv += zeroEtvToAdd;
+    let previous: number | null = null;
+    if (periodByLocalStart && overlays.shift) {
+      const previousIndex = periodByLocalStart.get(shiftLocalBack(series.localStarts[i], overlays.shift));
+      if (previousIndex !== undefined && isComplete(fullSeries, previousIndex)) {
+        previous = getFilteredTotal(fullSeries, previousIndex, filter);
       }
-
-      historyIndex += 1;
     }
 
-    results.push({
-      date: cursor,
+    results[i] = {
+      date: series.starts[i],
       ai,
       lastChance,
       zeroEtv,
-      total: ai + lastChance
-    });
-
-    cursor += intervalMs;
+      total: applyFilter(ai, lastChance, zeroEtv, filter),
+      anomalyScore: anomalyScores[i],
+      previous,
+      baseline: overlays.profile ? getProfileValue(overlays.profile, series.localStarts[i], granularity) : null,
+      coverage: getCoverage(series, i)
+    };
   }
 
-  return formatChartPoints(results, granularity);
+  return formatChartPoints(results, series.localStarts, granularity);
 };
 
-export const processHeatMaps = (history: HistoryItem[], filter: DataFilter = 'all'): HeatMapData => {
-  const cutoff = Date.now() - 365 * DAY_MS;
-  let minTs = Number.MAX_SAFE_INTEGER;
-  let maxTs = 0;
+export const summarizeChartPoints = (points: ChartDataPoint[]): ChartSummary => {
+  // Null coverage means no buckets were expected, e.g. past the end of the data
+  const recorded = points.filter(point => point.coverage !== null && point.coverage > 0);
+  const totals = recorded.map(point => point.total);
+  const total = totals.reduce((sum, value) => sum + value, 0);
+  const mean = recorded.length ? total / recorded.length : 0;
+  const variance = recorded.length ? totals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / recorded.length : 0;
+  const peak = recorded.reduce<ChartDataPoint | null>((best, point) => (!best || point.total > best.total ? point : best), null);
 
-  for (const item of history) {
-    if (item.t <= cutoff) continue;
-    if (item.t < minTs) minTs = item.t;
-    if (item.t > maxTs) maxTs = item.t;
+  return {
+    totals: {
+      ai: recorded.reduce((sum, point) => sum + point.ai, 0),
+      lastChance: recorded.reduce((sum, point) => sum + point.lastChance, 0),
+      zeroEtv: recorded.reduce((sum, point) => sum + point.zeroEtv, 0)
+    },
+    total,
+    buckets: recorded.length,
+    missingBuckets: points.length - recorded.length,
+    activeBuckets: totals.filter(value => value > 0).length,
+    mean: Math.round(mean * 10) / 10,
+    median: Math.round(calculateMedian(totals) * 10) / 10,
+    stdDev: Math.round(Math.sqrt(variance) * 10) / 10,
+    peak: peak && peak.total > 0 ? { date: peak.date, fullDate: peak.fullDate, total: peak.total } : null
+  };
+};
+
+// Weighted percentile, interpolating between the weight midpoints of the sorted values
+const calculateWeightedPercentile = (values: number[], weights: number[], percentile: number): number => {
+  if (values.length === 0) return 0;
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const target = (Math.min(Math.max(percentile, 0), 100) / 100) * totalWeight;
+
+  let cumulative = 0;
+  let prevMid = -Infinity;
+  let prevValue = values[order[0]];
+  for (const i of order) {
+    const mid = cumulative + weights[i] / 2;
+    if (target <= mid) {
+      if (prevMid === -Infinity) return values[i];
+      return prevValue + (values[i] - prevValue) * ((target - prevMid) / (mid - prevMid));
+    }
+    cumulative += weights[i];
+    prevMid = mid;
+    prevValue = values[i];
   }
+  return prevValue;
+};
 
-  if (minTs === Number.MAX_SAFE_INTEGER) {
+// Spread of one heat map cell's weekly sums, so a reliably busy slot can be told from an occasionally huge one.
+// `samples` and `weights` are the complete weeks only; `weekly` keeps every week, with null for gaps.
+const getCellStats = (samples: number[], weights: number[] | null, weekly: (number | null)[]): HourlyCellStats => {
+  const percentile = (p: number) => Math.round(
+    (weights ? calculateWeightedPercentile(samples, weights, p) : calculatePercentile(samples, p)) * 10
+  ) / 10;
+  const activeWeight = samples.reduce((sum, value, i) => sum + (value > 0 ? (weights?.[i] ?? 1) : 0), 0);
+  const totalWeight = weights ? weights.reduce((sum, w) => sum + w, 0) : samples.length;
+  return {
+    p10: percentile(10),
+    p25: percentile(25),
+    p75: percentile(75),
+    p90: percentile(90),
+    max: samples.length ? Math.max(...samples) : 0,
+    activeShare: totalWeight > 0 ? activeWeight / totalWeight : 0,
+    samples: samples.length,
+    weekly
+  };
+};
+
+export interface HeatMapOptions {
+  weeks?: number;            // Lookback ending now, or at the end of the data if that is earlier; defaults to a year
+  range?: DateRange | null;  // Explicit window, overriding `weeks`
+  recencyWeighted?: boolean; // Recent weeks count more towards the hourly statistics
+}
+
+// Half-life of the recency weighting, as a share of the weeks in the window
+const RECENCY_HALF_LIFE_SHARE = 0.25;
+
+/**
+ * Heat map statistics over the lookback window (a year by default), read from the index's 15m
+ * rollup so that local day/hour boundaries come precomputed. Day and hour are taken in the index
+ * timezone.
+ */
+export const processHeatMaps = (
+  index: RollupIndex,
+  filter: DataFilter = ALL_CATEGORIES,
+  options: HeatMapOptions = {}
+): HeatMapData => {
+  // An archived snapshot ends before now; its lookback ends where its data does
+  const now = Math.min(Date.now(), index.lastBucket + QUARTER_MS);
+  const span = options.range ?? {
+    start: now - (options.weeks ? options.weeks * WEEK_MS : 365 * DAY_MS) + 1,
+    end: now
+  };
+  const quarters = index.rollups.quarter;
+  const from = lowerBound(quarters.starts, span.start);
+  const to = lowerBound(quarters.starts, Math.min(span.end, index.lastBucket + 1));
+
+  if (from >= to) {
     return {
       weekly: {},
+      dailyCoverage: {},
       hourlyMedian: Array(7).fill(0).map(() => Array(24).fill(0)),
       hourlyMean: Array(7).fill(0).map(() => Array(24).fill(0)),
+      hourlyStats: Array(7).fill(0).map(() => Array(24).fill(0).map(() => getCellStats([], null, []))),
+      window: span,
+      sampleWeeks: [],
+      sampleWeights: [],
       maxDaily: 1,
       maxHourlyMedian: 1,
       maxHourlyMean: 1
     };
   }
 
-  const segments = buildOffsetSegments(minTs - DAY_MS, maxTs + DAY_MS, LOCAL_PARTS_FORMATTER);
-  const minOffset = getOffsetAt(minTs, segments);
-  const maxOffset = getOffsetAt(maxTs, segments);
-  const minLocal = minTs + minOffset;
-  const maxLocal = maxTs + maxOffset;
-
-  const getWeekKey = (localTs: number): number => {
-    const d = new Date(localTs);
-    const dayOfWeek = d.getUTCDay();
-    const dayIndex = (dayOfWeek + 6) % 7;
-    const hours = d.getUTCHours();
-    const minutes = d.getUTCMinutes();
-    const seconds = d.getUTCSeconds();
-    const ms = d.getUTCMilliseconds();
-    const dayStartLocal = localTs - (((hours * 60 + minutes) * 60 + seconds) * 1000 + ms);
-    const weekStartLocal = dayStartLocal - dayIndex * DAY_MS;
-    return Math.floor(weekStartLocal / WEEK_MS);
-  };
-
-  const minWeekKey = getWeekKey(minLocal);
-  const maxWeekKey = getWeekKey(maxLocal);
+  const firstWeekStart = getWeekStartLocal(quarters.localStarts[from]);
+  const minWeekKey = Math.floor(firstWeekStart / WEEK_MS);
+  const maxWeekKey = Math.floor(getWeekStartLocal(quarters.localStarts[to - 1]) / WEEK_MS);
   const weekCount = Math.max(maxWeekKey - minWeekKey + 1, 1);
 
   const weeklyMap: Record<string, number> = {};
-  const hourlySum: number[][] = Array(7).fill(0).map(() => Array(24).fill(0));
-  const hourlyWeekSums: number[][][] = Array(7)
-    .fill(0)
-    .map(() => Array(24).fill(0).map(() => Array(weekCount).fill(0)));
-
-  const offsetIndex = { i: 0 };
-
-  for (const item of history) {
-    if (item.t <= cutoff) continue;
-
-    const offset = getOffsetForTs(item.t, segments, offsetIndex);
-    const localTs = item.t + offset;
+  const dailyRecorded: Record<string, number> = {};
+  const dailyExpected: Record<string, number> = {};
+  const createCells = () => Array(7).fill(0).map(() => Array(24).fill(0).map(() => Array(weekCount).fill(0)));
+  const hourlyWeekSums: number[][][] = createCells();
+  // Recorded vs expected buckets per slot and week; slots outside the data (or skipped by DST) expect none
+  const hourlyWeekRecorded: number[][][] = createCells();
+  const hourlyWeekExpected: number[][][] = createCells();
+
+  for (let i = from; i < to; i++) {
+    const localTs = quarters.localStarts[i];
     const d = new Date(localTs);
-    const dayOfWeek = d.getUTCDay();
-    const dayIndex = (dayOfWeek + 6) % 7;
+    const dayIndex = (d.getUTCDay() + 6) % 7;
     const hour = d.getUTCHours();
 
-    let total = 0;
-    if (filter === 'all') {
-      total = getAiCount(item) + item.last_chance;
-    } else if (filter === 'zeroEtv') {
-      total = getZeroEtvCount(item);
-    } else if (filter === 'afa') {
-      total = item.last_chance;
-    }
+    const total = getFilteredTotal(quarters, i, filter);
 
-    const year = d.getUTCFullYear();
-    const month = d.getUTCMonth() + 1;
-    const day = d.getUTCDate();
-    const dateKey = `${year}-${pad2(month)}-${pad2(day)}`;
+    const dateKey = formatLocalDateKey(localTs);
     weeklyMap[dateKey] = (weeklyMap[dateKey] || 0) + total;
+    dailyRecorded[dateKey] = (dailyRecorded[dateKey] || 0) + quarters.recorded[i];
+    dailyExpected[dateKey] = (dailyExpected[dateKey] || 0) + quarters.expected[i];
 
-    const minutes = d.getUTCMinutes();
-    const seconds = d.getUTCSeconds();
-    const ms = d.getUTCMilliseconds();
-    const dayStartLocal = localTs - (((hour * 60 + minutes) * 60 + seconds) * 1000 + ms);
-    const weekStartLocal = dayStartLocal - dayIndex * DAY_MS;
-    const weekKey = Math.floor(weekStartLocal / WEEK_MS);
-    const weekIndex = weekKey - minWeekKey;
-
+    const weekIndex = Math.floor(getWeekStartLocal(localTs) / WEEK_MS) - minWeekKey;
     if (weekIndex >= 0 && weekIndex < weekCount) {
       hourlyWeekSums[dayIndex][hour][weekIndex] += total;
+      hourlyWeekRecorded[dayIndex][hour][weekIndex] += quarters.recorded[i];
+      hourlyWeekExpected[dayIndex][hour][weekIndex] += quarters.expected[i];
     }
+  }
 
-    hourlySum[dayIndex][hour] += total;
+  const dailyCoverage: Record<string, number> = {};
+  for (const dateKey of Object.keys(dailyExpected)) {
+    const coverage = dailyExpected[dateKey] > 0 ? dailyRecorded[dateKey] / dailyExpected[dateKey] : 1;
+    if (coverage < 1) dailyCoverage[dateKey] = coverage;
   }
 
   const hourlyMedianMatrix: number[][] = Array(7).fill(0).map(() => Array(24).fill(0));
   const hourlyMeanMatrix: number[][] = Array(7).fill(0).map(() => Array(24).fill(0));
+  const hourlyStatsMatrix: HourlyCellStats[][] = Array(7).fill(0).map(() => []);
+
+  // Oldest week first, halving every RECENCY_HALF_LIFE_SHARE of the window
+  const halfLife = Math.max(weekCount * RECENCY_HALF_LIFE_SHARE, 1);
+  const weekWeights = Array.from({ length: weekCount }, (_, k) =>
+    options.recencyWeighted ? Math.pow(0.5, (weekCount - 1 - k) / halfLife) : 1
+  );
 
   for (let d = 0; d < 7; d++) {
     for (let h = 0; h < 24; h++) {
-      const samples = hourlyWeekSums[d][h];
-      const median = calculateMedian(samples);
+      const recorded = hourlyWeekRecorded[d][h];
+      const expected = hourlyWeekExpected[d][h];
+      const weekly = hourlyWeekSums[d][h].map((value, k) =>
+        expected[k] > 0 && recorded[k] / expected[k] >= MIN_COVERAGE ? value : null
+      );
+      const complete = weekly.flatMap((value, k) => (value === null ? [] : [k]));
+      const samples = complete.map(k => hourlyWeekSums[d][h][k]);
+      const weights = options.recencyWeighted ? complete.map(k => weekWeights[k]) : null;
+
+      const median = weights ? calculateWeightedPercentile(samples, weights, 50) : calculateMedian(samples);
       hourlyMedianMatrix[d][h] = Math.round(median * 10) / 10;
 
-      const mean = hourlySum[d][h] / weekCount;
-      hourlyMeanMatrix[d][h] = Math.round(mean * 10) / 10;
+      const totalWeight = complete.reduce((acc, k) => acc + weekWeights[k], 0);
+      const sum = complete.reduce((acc, k) => acc + hourlyWeekSums[d][h][k] * weekWeights[k], 0);
+      hourlyMeanMatrix[d][h] = totalWeight > 0 ? Math.round((sum / totalWeight) * 10) / 10 : 0;
+
+      hourlyStatsMatrix[d][h] = getCellStats(samples, weights, weekly);
     }
   }
 
   return {
     weekly: weeklyMap,
+    dailyCoverage,
     hourlyMedian: hourlyMedianMatrix,
     hourlyMean: hourlyMeanMatrix,
+    hourlyStats: hourlyStatsMatrix,
+    window: span,
+    sampleWeeks: Array.from({ length: weekCount }, (_, k) => formatLocalDateKey(firstWeekStart + k * WEEK_MS)),
+    sampleWeights: weekWeights,
     maxDaily: Math.max(...Object.values(weeklyMap), 1),
     maxHourlyMedian: Math.max(...hourlyMedianMatrix.flat(), 1),
     maxHourlyMean: Math.max(...hourlyMeanMatrix.flat(), 1)
   };
 };
 
-export const getHeatColor = (value: number, max: number): string => {
-  if (value === 0) return 'bg-slate-100 dark:bg-slate-700';
+// Fewest sampled weeks an hour needs before it is ranked
+const MIN_OUTLOOK_SAMPLES = 4;
+
+/**
+ * The next `hours` local hours ranked by how likely each is to bring at least `minItems` items,
+ * judged by the heat map's weekly samples of the same weekday and hour. Follows the heat map's
+ * lookback and recency weighting; `timeZone` must be the one the heat maps were binned in.
+ */
+export const rankDropWindows = (
+  heatMaps: HeatMapData,
+  minItems: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+  hours: number = 24,
+  now: number = Date.now()
+): DropWindow[] => {
+  const segments = buildOffsetSegments(now - DAY_MS, now + hours * HOUR_MS + DAY_MS, getPartsFormatter(timeZone));
+  const firstLocal = Math.floor((now + getOffsetAt(now, segments)) / HOUR_MS) * HOUR_MS + HOUR_MS;
+  const windows: DropWindow[] = [];
+
+  for (let k = 0; k < hours; k++) {
+    const local = firstLocal + k * HOUR_MS;
+    const start = getUtcForLocal(local, segments);
+    // Hours skipped or repeated by DST resolve to an instant already listed
+    if (windows.length && start <= windows[windows.length - 1].start) continue;
+
+    const d = new Date(local);
+    const day = (d.getUTCDay() + 6) % 7;
+    const hour = d.getUTCHours();
+    const stats = heatMaps.hourlyStats[day]?.[hour];
+    if (!stats || stats.samples < MIN_OUTLOOK_SAMPLES) continue;
+
+    let hitWeight = 0;
+    let totalWeight = 0;
+    stats.weekly.forEach((value, i) => {
+      if (value === null) return;
+      const weight = heatMaps.sampleWeights[i] ?? 1;
+      totalWeight += weight;
+      if (value >= minItems) hitWeight += weight;
+    });
+
+    windows.push({
+      start,
+      day,
+      hour,
+      probability: totalWeight > 0 ? hitWeight / totalWeight : 0,
+      expected: heatMaps.hourlyMean[day][hour],
+      samples: stats.samples
+    });
+  }
+
+  return windows.sort((a, b) => b.probability - a.probability || b.expected - a.expected || a.start - b.start);
+};
+
+// Weeks of history a forecast draws on, and how stale the data may be before forecasts are dropped
+const FORECAST_WEEKS = 8;
+const FORECAST_MAX_STALENESS_MS = 2 * HOUR_MS;
+
+interface ForecastContext {
+  index: RollupIndex;
+  segments: OffsetSegment[];
+  filter: DataFilter;
+  now: number;
+}
+
+const buildForecastContext = (index: RollupIndex, filter: DataFilter, now: number): ForecastContext | null => {
+  if (!index.times.length || now - index.lastBucket > FORECAST_MAX_STALENESS_MS) return null;
+  const segments = buildOffsetSegments(now - (FORECAST_WEEKS + 1) * WEEK_MS, now + 2 * WEEK_MS, getPartsFormatter(index.timeZone));
+  return { index, segments, filter, now };
+};
+
+// Share of the expected 15m buckets in [start, end) that were recorded; null when none were expected
+const getRangeCoverage = (index: RollupIndex, start: number, end: number): number | null => {
+  const quarters = index.rollups.quarter;
+  let recorded = 0;
+  let expected = 0;
+  for (let i = lowerBound(quarters.starts, start); i < quarters.starts.length && quarters.starts[i] < end; i++) {
+    recorded += quarters.recorded[i];
+    expected += quarters.expected[i];
+  }
+  return expected > 0 ? recorded / expected : null;
+};
+
+/**
+ * Forecast for the period [start, end): what has arrived before `now`, plus the remainder as seen
+ * on the same weekdays and times of day in recent weeks. The band spans the 10th-90th percentile.
+ * Weeks whose matching window is missing too many buckets are not sampled.
+ */
+const forecastPeriod = ({ index, segments, filter, now }: ForecastContext, start: number, end: number): PeriodForecast => {
+  const sum = (from: number, to: number) => {
+    const totals = sumRange(index, from, to);
+    return applyFilter(totals.ai, totals.lastChance, totals.zeroEtv, filter);
+  };
+
+  const actual = now > start ? sum(start, Math.min(now, end)) : 0;
+  const remainderStart = Math.max(start, now);
+  if (remainderStart >= end) {
+    return { actual, projected: actual, low: actual, high: actual };
+  }
+
+  const pastStarts = getSameTimeWeeksBefore(remainderStart, FORECAST_WEEKS, segments);
+  const pastEnds = getSameTimeWeeksBefore(end, FORECAST_WEEKS, segments);
+  const samples: number[] = [];
+  for (let k = 0; k < FORECAST_WEEKS && pastStarts[k] >= index.firstBucket; k++) {
+    // A week with a scraper outage in the matching window would drag the projection down
+    if ((getRangeCoverage(index, pastStarts[k], pastEnds[k]) ?? 0) < MIN_COVERAGE) continue;
+    samples.push(sum(pastStarts[k], pastEnds[k]));
+  }
+
+  if (!samples.length) {
+    return { actual, projected: actual, low: actual, high: actual };
+  }
+
+  return {
+    actual,
+    projected: Math.round(actual + calculateMedian(samples)),
+    low: Math.round(actual + calculatePercentile(samples, 10)),
+    high: Math.round(actual + calculatePercentile(samples, 90))
+  };
+};
+
+// Local day and Monday-based week containing `now`, as UTC instants
+const getCurrentPeriods = ({ segments, now }: ForecastContext) => {
+  const localNow = now + getOffsetAt(now, segments);
+  const dayStartLocal = Math.floor(localNow / DAY_MS) * DAY_MS;
+  const weekStartLocal = getWeekStartLocal(localNow);
+  return {
+    dayStartLocal,
+    dayStart: getUtcForLocal(dayStartLocal, segments),
+    dayEnd: getUtcForLocal(dayStartLocal + DAY_MS, segments),
+    weekStart: getUtcForLocal(weekStartLocal, segments),
+    weekEnd: getUtcForLocal(weekStartLocal + WEEK_MS, segments)
+  };
+};
+
+// End-of-day and end-of-week projections of the selected categories, matching the stat cards
+export const processForecast = (
+  index: RollupIndex,
+  filter: DataFilter = ALL_CATEGORIES,
+  now: number = Date.now()
+): StatsForecast | null => {
+  const context = buildForecastContext(index, filter, now);
+  if (!context) return null;
+  const { dayStart, dayEnd, weekStart, weekEnd } = getCurrentPeriods(context);
+  return {
+    today: forecastPeriod(context, dayStart, dayEnd),
+    week: forecastPeriod(context, weekStart, weekEnd)
+  };
+};
+
+/**
+ * Expected totals for the chart periods that end after `now`: the rest of today for 15m/1h
+ * charts, the rest of the week for daily charts. The first point is the current, partial period.
+ */
+export const processForecastSeries = (
+  index: RollupIndex,
+  granularity: Granularity,
+  filter: DataFilter = ALL_CATEGORIES,
+  now: number = Date.now()
+): ForecastPoint[] => {
+  const context = buildForecastContext(index, filter, now);
+  if (!context) return [];
+  const { dayStartLocal, dayEnd, weekEnd } = getCurrentPeriods(context);
+  const periodStarts: number[] = [];
+
+  if (granularity === '1d') {
+    for (let local = dayStartLocal; ; local += DAY_MS) {
+      const start = getUtcForLocal(local, context.segments);
+      if (start >= weekEnd) break;
+      periodStarts.push(start);
+    }
+    periodStarts.push(weekEnd);
+  } else {
+    const series = index.rollups[GRANULARITY_LEVEL[granularity]];
+    const interval = granularity === '15m' ? QUARTER_MS : HOUR_MS;
+    for (let start = series.starts[series.starts.length - 1]; start < dayEnd; start += interval) {
+      periodStarts.push(start);
+    }
+    periodStarts.push(dayEnd);
+  }
+
+  const points: ForecastPoint[] = [];
+  for (let i = 0; i < periodStarts.length - 1; i++) {
+    const start = periodStarts[i];
+    const { projected, low, high } = forecastPeriod(context, start, periodStarts[i + 1]);
+    const { label, fullDate } = getChartLabelParts(buildPartMap(start, index.timeZone), granularity);
+    points.push({ date: start, expected: projected, low, high, label, fullDate });
+  }
+  return points;
+};
+
+// Span checked by the completeness indicator, ending at the last recorded bucket
+const COMPLETENESS_DAYS = 7;
+
+// Recorded vs expected 15m buckets over the last week of data. Time after the last bucket is not
+// counted here; a feed that stopped updating shows up through `meta.updatedAt` instead.
+export const processCompleteness = (index: RollupIndex): DataCompleteness => {
+  const quarters = index.rollups.quarter;
+  const since = Math.max(index.firstBucket, index.lastBucket + QUARTER_MS - COMPLETENESS_DAYS * DAY_MS);
+  const from = lowerBound(quarters.starts, since);
+  const to = lowerBound(quarters.starts, index.lastBucket + 1);
+  const gaps: DateRange[] = [];
+  let expected = 0;
+  let missing = 0;
+
+  for (let i = from; i < to; i++) {
+    expected += quarters.expected[i];
+    if (quarters.recorded[i] > 0) continue;
+    missing += quarters.expected[i];
+    const last = gaps[gaps.length - 1];
+    if (last && last.end === quarters.starts[i]) {
+      last.end += QUARTER_MS;
+    } else {
+      gaps.push({ start: quarters.starts[i], end: quarters.starts[i] + QUARTER_MS });
+    }
+  }
+
+  return {
+    since,
+    coverage: expected > 0 ? (expected - missing) / expected : 1,
+    missingBuckets: missing,
+    gaps: gaps.reverse()
+  };
+};
+
+// Intensity bucket 0-5 of a heat map cell; 0 means no drops at all
+export const getHeatLevel = (value: number, max: number): number => {
+  if (value === 0) return 0;
   const ratio = value / max;
-  if (ratio < 0.2) return 'bg-heat-1';
-  if (ratio < 0.4) return 'bg-heat-2';
-  if (ratio < 0.6) return 'bg-heat-3';
-  if (ratio < 0.8) return 'bg-heat-4';
-  return 'bg-heat-5';
+  if (ratio < 0.2) return 1;
+  if (ratio < 0.4) return 2;
+  if (ratio < 0.6) return 3;
+  if (ratio < 0.8) return 4;
+  return 5;
 };
+
+const HEAT_CLASSES = ['bg-slate-100 dark:bg-slate-700', 'bg-heat-1', 'bg-heat-2', 'bg-heat-3', 'bg-heat-4', 'bg-heat-5'];
+
+export const getHeatColor = (value: number, max: number): string => HEAT_CLASSES[getHeatLevel(value, max)];
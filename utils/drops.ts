@@ -0,0 +1,200 @@
+import { CategoryTotals, DataFilter, HistoryItem } from '../types';
+import {
+  ALL_CATEGORIES,
+  DEFAULT_TIMEZONE,
+  calculatePercentile,
+  countCategories,
+  getBucketTotals,
+  getLocalHours,
+  lowerBoundHistory
+} from './analytics';
+
+// A run of consecutive active 15m buckets
+export interface DropEvent {
+  start: number;   // `t` of the first bucket
+  end: number;     // End of the last bucket
+  buckets: number;
+  totals: CategoryTotals;
+  size: number;    // Items under the data filter
+  peak: number;    // Largest single bucket under the data filter
+}
+
+export interface DropEventStats {
+  count: number;
+  medianSize: number;
+  largestSize: number;
+  medianDuration: number;       // ms
+  medianSpacing: number | null; // ms between the starts of consecutive events; null with fewer than two
+}
+
+// Time between the end of one drop and the start of the next
+export interface QuietPeriod {
+  start: number;
+  end: number;
+}
+
+// Percentiles of quiet period lengths, in ms
+export interface GapDistribution {
+  count: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export type QuietWindow = 'week' | 'month' | 'year';
+
+export interface QuietStats {
+  lastDrop: number | null;          // End of the most recent drop
+  current: number | null;           // ms from `lastDrop` to the end of the data
+  currentRecorded: boolean;         // No missing buckets in the current period; otherwise it is not ranked
+  percentile: number | null;        // Share of past quiet periods shorter than `current`, 0-100
+  hourPercentile: number | null;    // The same among periods that began in the same local hour
+  overall: GapDistribution;
+  byHour: GapDistribution[];        // 24, by the local hour each period began
+  longest: Record<QuietWindow, QuietPeriod | null>; // Including the current one, clipped to the window
+}
+
+export interface DropEventOptions {
+  minItems?: number; // Items a bucket needs to count as active
+  since?: number;    // Only buckets starting at or after this instant
+  filter?: DataFilter;
+}
+
+const QUARTER_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Span of data the recent drops feed is segmented over, before the feed narrows it further
+export const RECENT_DROPS_MS = 7 * DAY_MS;
+
+const addTotals = (a: CategoryTotals, b: CategoryTotals): CategoryTotals => ({
+  ai: a.ai + b.ai,
+  lastChance: a.lastChance + b.lastChance,
+  zeroEtv: a.zeroEtv + b.zeroEtv
+});
+
+/**
+ * Groups consecutive active buckets into drop events, oldest first. A missing bucket ends an
+ * event just like a quiet one, so a scraper gap never merges two drops.
+ */
+export const segmentDropEvents = (history: HistoryItem[], options: DropEventOptions = {}): DropEvent[] => {
+  const { minItems = 1, since = -Infinity, filter = ALL_CATEGORIES } = options;
+  const events: DropEvent[] = [];
+  let current: DropEvent | null = null;
+
+  for (let i = lowerBoundHistory(history, since); i < history.length; i++) {
+    const item = history[i];
+    const totals = getBucketTotals(item);
+    const size = countCategories(totals, filter);
+
+    if (size < minItems) {
+      current = null;
+      continue;
+    }
+    if (current && current.end === item.t) {
+      current.end = item.t + QUARTER_MS;
+      current.buckets++;
+      current.totals = addTotals(current.totals, totals);
+      current.size += size;
+      current.peak = Math.max(current.peak, size);
+    } else {
+      current = { start: item.t, end: item.t + QUARTER_MS, buckets: 1, totals, size, peak: size };
+      events.push(current);
+    }
+  }
+
+  return events;
+};
+
+export const summarizeDropEvents = (events: DropEvent[]): DropEventStats => {
+  const spacings = events.slice(1).map((event, i) => event.start - events[i].start);
+  return {
+    count: events.length,
+    medianSize: Math.round(calculatePercentile(events.map(event => event.size), 50) * 10) / 10,
+    largestSize: events.reduce((max, event) => Math.max(max, event.size), 0),
+    medianDuration: calculatePercentile(events.map(event => event.end - event.start), 50),
+    medianSpacing: spacings.length ? calculatePercentile(spacings, 50) : null
+  };
+};
+
+// History the quiet period distributions are drawn from
+const QUIET_LOOKBACK_MS = 365 * DAY_MS;
+
+const QUIET_WINDOW_MS: Record<QuietWindow, number> = {
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS
+};
+
+const getDistribution = (durations: number[]): GapDistribution => ({
+  count: durations.length,
+  p50: calculatePercentile(durations, 50),
+  p75: calculatePercentile(durations, 75),
+  p90: calculatePercentile(durations, 90),
+  max: durations.reduce((max, value) => Math.max(max, value), 0)
+});
+
+const getPercentileRank = (durations: number[], value: number): number | null =>
+  durations.length ? Math.round((durations.filter(d => d < value).length / durations.length) * 100) : null;
+
+/**
+ * Quiet periods between drops over the last year of data, where a drop is any run of buckets
+ * with at least `minItems` items. Periods that contain missing buckets are left out, since a
+ * scraper outage says nothing about how quiet it was. "Now" is the end of the last bucket.
+ */
+export const analyzeQuietPeriods = (
+  history: HistoryItem[],
+  timeZone: string = DEFAULT_TIMEZONE,
+  options: Omit<DropEventOptions, 'since'> = {}
+): QuietStats => {
+  const { minItems = 1, filter = ALL_CATEGORIES } = options;
+  const dataEnd = history.length ? history[history.length - 1].t + QUARTER_MS : 0;
+  const since = dataEnd - QUIET_LOOKBACK_MS;
+  const periods: QuietPeriod[] = [];
+  let lastDrop: number | null = null;
+  let previous: number | null = null;
+  let recorded = true; // No missing buckets since `lastDrop`
+
+  for (let i = lowerBoundHistory(history, since); i < history.length; i++) {
+    const item = history[i];
+    if (previous !== null && item.t !== previous + QUARTER_MS) recorded = false;
+    previous = item.t;
+
+    if (countCategories(getBucketTotals(item), filter) < minItems) continue;
+    if (lastDrop !== null && item.t > lastDrop && recorded) {
+      periods.push({ start: lastDrop, end: item.t });
+    }
+    lastDrop = item.t + QUARTER_MS;
+    recorded = true;
+  }
+
+  const durations = periods.map(period => period.end - period.start);
+  const hours = getLocalHours(periods.map(period => period.start), timeZone);
+  const byHour = Array.from({ length: 24 }, (_, hour) => getDistribution(durations.filter((_, i) => hours[i] === hour)));
+
+  const current = lastDrop !== null ? dataEnd - lastDrop : null;
+  const currentHour = lastDrop !== null ? getLocalHours([lastDrop], timeZone)[0] : null;
+  // The current period follows the same missing-bucket rule as past ones
+  const ranked = current !== null && recorded;
+  const candidates = ranked && current ? [...periods, { start: lastDrop, end: dataEnd }] : periods;
+
+  const getLongest = (window: QuietWindow): QuietPeriod | null => {
+    const windowStart = dataEnd - QUIET_WINDOW_MS[window];
+    return candidates.reduce<QuietPeriod | null>((longest, period) => {
+      if (period.end <= windowStart) return longest;
+      const clipped = { start: Math.max(period.start, windowStart), end: period.end };
+      return !longest || clipped.end - clipped.start > longest.end - longest.start ? clipped : longest;
+    }, null);
+  };
+
+  return {
+    lastDrop,
+    current,
+    currentRecorded: current !== null && recorded,
+    percentile: ranked ? getPercentileRank(durations, current) : null,
+    hourPercentile: ranked ? getPercentileRank(durations.filter((_, i) => hours[i] === currentHour), current) : null,
+    overall: getDistribution(durations),
+    byHour,
+    longest: { week: getLongest('week'), month: getLongest('month'), year: getLongest('year') }
+  };
+};
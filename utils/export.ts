@@ -0,0 +1,107 @@
+import { ChartDataPoint, IntensityMode } from '../types';
+import { formatDateTime } from './analytics';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: (string | number)[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n') + '\n';
+
+const buildFile = (name: string, format: ExportFormat, csv: () => string, json: () => unknown): ExportFile => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  return format === 'csv'
+    ? { filename: `freevinesstats-${name}-${stamp}.csv`, content: csv(), mimeType: 'text/csv' }
+    : { filename: `freevinesstats-${name}-${stamp}.json`, content: JSON.stringify(json(), null, 2), mimeType: 'application/json' };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away cancels the download in some browsers (Safari, Firefox)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadFile = ({ filename, content, mimeType }: ExportFile) =>
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+
+// The chart buckets currently on screen; `date` is the bucket start in the analysis timezone
+export const exportChartSeries = (points: ChartDataPoint[], timeZone: string, format: ExportFormat): ExportFile =>
+  buildFile(
+    'chart',
+    format,
+    () => toCsv(
+      [`date (${timeZone})`, 'timestamp_ms', 'ai', 'lastChance', 'zeroEtv', 'total', 'anomalyScore', 'previous', 'baseline', 'coverage'],
+      points.map(p => [
+        formatDateTime(p.date, timeZone),
+        p.date,
+        p.ai,
+        p.lastChance,
+        p.zeroEtv,
+        p.total,
+        p.anomalyScore ?? '',
+        p.previous ?? '',
+        p.baseline ?? '',
+        p.coverage ?? ''
+      ])
+    ),
+    () => ({
+      timeZone,
+      points: points.map(p => ({
+        date: formatDateTime(p.date, timeZone),
+        timestamp: p.date,
+        ai: p.ai,
+        lastChance: p.lastChance,
+        zeroEtv: p.zeroEtv,
+        total: p.total,
+        anomalyScore: p.anomalyScore,
+        previous: p.previous,
+        baseline: p.baseline,
+        coverage: p.coverage
+      }))
+    })
+  );
+
+// HeatMapData.weekly: one row per calendar day
+export const exportDailyMap = (weekly: Record<string, number>, timeZone: string, format: ExportFormat): ExportFile => {
+  const days = Object.keys(weekly).sort();
+  return buildFile(
+    'daily',
+    format,
+    () => toCsv([`date (${timeZone})`, 'items'], days.map(day => [day, weekly[day]])),
+    () => ({ timeZone, days: Object.fromEntries(days.map(day => [day, weekly[day]])) })
+  );
+};
+
+// A 7x24 hourly matrix: rows are Monday-first weekdays, columns are hours of the day
+export const exportHourlyMatrix = (
+  matrix: number[][],
+  statistic: IntensityMode,
+  timeZone: string,
+  format: ExportFormat
+): ExportFile => {
+  const hours = Array.from({ length: 24 }, (_, h) => String(h).padStart(2, '0'));
+  return buildFile(
+    `hourly-${statistic}`,
+    format,
+    () => toCsv(
+      [`weekday (${timeZone})`, ...hours.map(h => `${h}:00`)],
+      WEEKDAYS.map((day, d) => [day, ...(matrix[d] ?? [])])
+    ),
+    () => ({ timeZone, statistic, weekdays: WEEKDAYS, hours: hours.map(Number), values: matrix })
+  );
+};
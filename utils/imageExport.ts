@@ -0,0 +1,152 @@
+import { getHeatLevel } from './analytics';
+import { downloadBlob } from './export';
+
+export type ImageFormat = 'svg' | 'png';
+export type ImageTheme = 'light' | 'dark';
+
+// Caption drawn above every exported image so it stands on its own
+export interface ImageMeta {
+  title: string;
+  dateRange: string;
+  filter: string;
+  timeZone: string;
+}
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export interface HeatMapGrid {
+  rowLabels: string[];
+  columnLabels: string[];       // Empty strings leave a column unlabelled
+  values: (number | null)[][];  // [row][column]; null cells are not drawn
+  max: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 24;
+const HEADER_HEIGHT = 64;
+const FONT_FAMILY = 'Inter, sans-serif';
+
+// Mirrors the CSS variables in src/index.css; index 0 is the empty-cell color
+const HEAT_PALETTE: Record<ImageTheme, string[]> = {
+  light: ['#f1f5f9', '#dbeafe', '#93c5fd', '#3b82f6', '#1d4ed8', '#1e3a8a'],
+  dark: ['#334155', '#1e3a8a', '#1d4ed8', '#3b82f6', '#93c5fd', '#dbeafe']
+};
+
+const THEME_COLORS: Record<ImageTheme, { background: string; title: string; caption: string; label: string }> = {
+  light: { background: '#ffffff', title: '#0f172a', caption: '#64748b', label: '#94a3b8' },
+  dark: { background: '#1e293b', title: '#ffffff', caption: '#94a3b8', label: '#94a3b8' }
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderHeader = (meta: ImageMeta, theme: ImageTheme): string => {
+  const colors = THEME_COLORS[theme];
+  const caption = `${meta.dateRange} · ${meta.filter} · ${meta.timeZone}`;
+  return (
+    `<text x="${PADDING}" y="${PADDING + 16}" font-size="18" font-weight="800" fill="${colors.title}">${escapeXml(meta.title)}</text>` +
+    `<text x="${PADDING}" y="${PADDING + 36}" font-size="12" font-weight="600" fill="${colors.caption}">${escapeXml(caption)}</text>`
+  );
+};
+
+const wrapSvg = (body: string, width: number, height: number, theme: ImageTheme): string =>
+  `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">` +
+  `<rect width="100%" height="100%" fill="${THEME_COLORS[theme].background}"/>` +
+  body +
+  '</svg>';
+
+/**
+ * Copies a rendered recharts surface into a standalone SVG with a caption header. Tooltip and
+ * cursor overlays are left out.
+ */
+export const renderChartSvg = (surface: SVGSVGElement, meta: ImageMeta, theme: ImageTheme): RenderedSvg => {
+  const { width: chartWidth, height: chartHeight } = surface.getBoundingClientRect();
+  const clone = surface.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('.recharts-tooltip-cursor').forEach(node => node.remove());
+  clone.setAttribute('x', String(PADDING));
+  clone.setAttribute('y', String(PADDING + HEADER_HEIGHT));
+  clone.setAttribute('width', String(chartWidth));
+  clone.setAttribute('height', String(chartHeight));
+
+  const width = Math.ceil(chartWidth + PADDING * 2);
+  const height = Math.ceil(chartHeight + HEADER_HEIGHT + PADDING * 2);
+  const body = renderHeader(meta, theme) + new XMLSerializer().serializeToString(clone);
+  return { svg: wrapSvg(body, width, height, theme), width, height };
+};
+
+export const renderHeatMapSvg = (grid: HeatMapGrid, meta: ImageMeta, theme: ImageTheme): RenderedSvg => {
+  const cell = 16;
+  const gap = 3;
+  const labelWidth = 36;
+  const columnHeader = 16;
+  const colors = THEME_COLORS[theme];
+  const palette = HEAT_PALETTE[theme];
+  const columns = grid.columnLabels.length;
+  const top = PADDING + HEADER_HEIGHT;
+  const left = PADDING + labelWidth;
+  const parts: string[] = [renderHeader(meta, theme)];
+
+  grid.columnLabels.forEach((label, c) => {
+    if (!label) return;
+    const x = left + c * (cell + gap) + cell / 2;
+    parts.push(`<text x="${x}" y="${top + 10}" font-size="9" font-weight="700" fill="${colors.label}" text-anchor="middle">${escapeXml(label)}</text>`);
+  });
+
+  grid.rowLabels.forEach((label, r) => {
+    const y = top + columnHeader + r * (cell + gap);
+    parts.push(`<text x="${left - 8}" y="${y + cell - 4}" font-size="10" font-weight="700" fill="${colors.caption}" text-anchor="end">${escapeXml(label)}</text>`);
+
+    for (let c = 0; c < columns; c++) {
+      const value = grid.values[r]?.[c];
+      if (value === null || value === undefined) continue;
+      const x = left + c * (cell + gap);
+      const fill = palette[getHeatLevel(value, grid.max)];
+      parts.push(`<rect x="${x}" y="${y}" width="${cell}" height="${cell}" rx="4" fill="${fill}"><title>${value}</title></rect>`);
+    }
+  });
+
+  const width = left + columns * (cell + gap) - gap + PADDING;
+  const height = top + columnHeader + grid.rowLabels.length * (cell + gap) - gap + PADDING;
+  return { svg: wrapSvg(parts.join(''), width, height, theme), width, height };
+};
+
+// Rasterizes at 2x so the PNG stays sharp on high-density screens
+const svgToPngBlob = ({ svg, width, height }: RenderedSvg, scale: number = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render SVG'));
+    };
+    image.src = url;
+  });
+
+export const downloadImage = async (image: RenderedSvg, name: string, format: ImageFormat): Promise<void> => {
+  const filename = `freevinesstats-${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === 'svg') {
+    downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), filename);
+    return;
+  }
+  downloadBlob(await svgToPngBlob(image), filename);
+};
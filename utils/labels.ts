@@ -0,0 +1,32 @@
+import { Category, DataFilter, HeatMapLookback } from '../types';
+
+export const CATEGORY_LABELS: Record<Category, string> = {
+  ai: 'AI',
+  lastChance: 'AFA',
+  zeroEtv: 'Zero ETV'
+};
+
+export const describeFilter = (filter: DataFilter): string =>
+  filter.length === Object.keys(CATEGORY_LABELS).length
+    ? 'All Items'
+    : filter.map(category => CATEGORY_LABELS[category]).join(' + ');
+
+export const LOOKBACK_LABELS: Record<HeatMapLookback, string> = {
+  4: '4 weeks',
+  12: '12 weeks',
+  26: '26 weeks',
+  52: '52 weeks',
+  range: 'Chart range'
+};
+
+export const describeLookback = (lookback: HeatMapLookback, recencyWeighted: boolean): string =>
+  `${lookback === 'range' ? 'Chart range' : `Last ${LOOKBACK_LABELS[lookback]}`}${recencyWeighted ? ', recent weighted' : ''}`;
+
+// Compact duration such as 45m, 3h or 2h 15m; days past 48 hours
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours >= 48) return `${Math.round(hours / 24)}d`;
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
@@ -0,0 +1,130 @@
+import {
+  AnomalySensitivity,
+  Category,
+  ChartOverlay,
+  DataFilter,
+  DateRange,
+  Granularity,
+  HeatMapLookback,
+  IntensityMode,
+  Timeframe
+} from '../types';
+
+// Every dashboard control that can be shared through a link
+export interface DashboardUrlState {
+  timeframe: Timeframe;
+  granularity: Granularity;
+  filter: DataFilter;
+  intensity: IntensityMode;
+  lookback: HeatMapLookback; // 'range' only while a custom range is set
+  recencyWeighted: boolean;
+  sensitivity: AnomalySensitivity;
+  overlays: ChartOverlay[];
+  dropSize: number;        // Items a 15m bucket needs to count towards a drop
+  scroll: number;          // PulseChart slider position, 0-100
+  range: DateRange | null; // Only meaningful when timeframe is 'custom'
+}
+
+export const DEFAULT_URL_STATE: DashboardUrlState = {
+  timeframe: '1d',
+  granularity: '1h',
+  filter: ['ai', 'lastChance', 'zeroEtv'],
+  intensity: 'median',
+  lookback: 52,
+  recencyWeighted: false,
+  sensitivity: 'medium',
+  overlays: [],
+  dropSize: 1,
+  scroll: 100,
+  range: null
+};
+
+const TIMEFRAMES: Timeframe[] = ['1d', '7d', '1m', '3m', '1y', 'custom'];
+const GRANULARITIES: Granularity[] = ['15m', '1h', '1d'];
+const CATEGORIES: Category[] = ['ai', 'lastChance', 'zeroEtv'];
+// Values of the old single-choice filter, so existing links keep working
+const LEGACY_FILTERS: Record<string, DataFilter> = { all: CATEGORIES, zeroEtv: ['zeroEtv'], afa: ['lastChance'] };
+const LOOKBACKS: HeatMapLookback[] = [4, 12, 26, 52, 'range'];
+const INTENSITY_MODES: IntensityMode[] = ['median', 'mean'];
+const SENSITIVITIES: AnomalySensitivity[] = ['low', 'medium', 'high'];
+const OVERLAYS: ChartOverlay[] = ['previous', 'baseline'];
+
+// Params written by this module; anything else in the query string (e.g. `source`) is left alone
+const PARAM_KEYS = ['tf', 'g', 'filter', 'mode', 'lb', 'rw', 'sens', 'ov', 'drop', 'scroll', 'from', 'to'];
+
+const pick = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// Comma list of categories, kept in CATEGORIES order; an empty selection falls back to all of them
+const parseFilter = (value: string | null): DataFilter => {
+  if (value === null) return DEFAULT_URL_STATE.filter;
+  if (value in LEGACY_FILTERS) return LEGACY_FILTERS[value];
+  const filter = CATEGORIES.filter(category => value.split(',').includes(category));
+  return filter.length ? filter : DEFAULT_URL_STATE.filter;
+};
+
+const parseTimestamp = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const ts = Number(value);
+  return Number.isFinite(ts) ? ts : null;
+};
+
+export const parseUrlState = (search: string): DashboardUrlState => {
+  const params = new URLSearchParams(search);
+  const from = parseTimestamp(params.get('from'));
+  const to = parseTimestamp(params.get('to'));
+  const range = from !== null && to !== null && from < to ? { start: from, end: to } : null;
+  const scroll = Number(params.get('scroll'));
+  const dropSize = Number(params.get('drop'));
+
+  let timeframe = pick(params.get('tf'), TIMEFRAMES, DEFAULT_URL_STATE.timeframe);
+  if (timeframe === 'custom' && !range) {
+    timeframe = DEFAULT_URL_STATE.timeframe;
+  }
+
+  const lookbackParam = params.get('lb');
+  let lookback = LOOKBACKS.find(value => String(value) === lookbackParam) ?? DEFAULT_URL_STATE.lookback;
+  if (lookback === 'range' && timeframe !== 'custom') {
+    lookback = DEFAULT_URL_STATE.lookback;
+  }
+
+  return {
+    timeframe,
+    granularity: pick(params.get('g'), GRANULARITIES, DEFAULT_URL_STATE.granularity),
+    filter: parseFilter(params.get('filter')),
+    intensity: pick(params.get('mode'), INTENSITY_MODES, DEFAULT_URL_STATE.intensity),
+    lookback,
+    recencyWeighted: params.get('rw') === '1',
+    sensitivity: pick(params.get('sens'), SENSITIVITIES, DEFAULT_URL_STATE.sensitivity),
+    // Kept in OVERLAYS order so equal selections serialize the same way
+    overlays: OVERLAYS.filter(overlay => (params.get('ov') ?? '').split(',').includes(overlay)),
+    dropSize: Number.isInteger(dropSize) && dropSize >= 1 ? dropSize : DEFAULT_URL_STATE.dropSize,
+    scroll: params.has('scroll') && scroll >= 0 && scroll <= 100 ? scroll : DEFAULT_URL_STATE.scroll,
+    range: timeframe === 'custom' ? range : null
+  };
+};
+
+// Returns `search` with the dashboard params replaced; defaults are omitted to keep links short
+export const serializeUrlState = (state: DashboardUrlState, search: string): string => {
+  const params = new URLSearchParams(search);
+  PARAM_KEYS.forEach(key => params.delete(key));
+
+  if (state.timeframe !== DEFAULT_URL_STATE.timeframe) params.set('tf', state.timeframe);
+  if (state.granularity !== DEFAULT_URL_STATE.granularity) params.set('g', state.granularity);
+  if (state.filter.length < CATEGORIES.length) params.set('filter', state.filter.join(','));
+  if (state.intensity !== DEFAULT_URL_STATE.intensity) params.set('mode', state.intensity);
+  if (state.lookback !== DEFAULT_URL_STATE.lookback) params.set('lb', String(state.lookback));
+  if (state.recencyWeighted) params.set('rw', '1');
+  if (state.sensitivity !== DEFAULT_URL_STATE.sensitivity) params.set('sens', state.sensitivity);
+  if (state.overlays.length) params.set('ov', state.overlays.join(','));
+  if (state.dropSize !== DEFAULT_URL_STATE.dropSize) params.set('drop', String(state.dropSize));
+  if (state.timeframe === 'custom' && state.range) {
+    params.set('from', String(state.range.start));
+    params.set('to', String(state.range.end));
+  } else if (state.scroll !== DEFAULT_URL_STATE.scroll) {
+    params.set('scroll', String(state.scroll));
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
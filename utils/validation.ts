@@ -0,0 +1,140 @@
+import { HistoryItem, StatsData, StatsDelta, StatsMeta } from '../types';
+import { SchemaError } from '../services/errors';
+
+// Stop collecting after this many issues so a completely wrong payload doesn't produce a huge message
+const MAX_ISSUES = 10;
+
+export interface ValidationReport {
+  reordered: boolean;        // History was not sorted by `t` and had to be sorted
+  duplicatesRemoved: number; // Buckets dropped because a later entry had the same `t`
+}
+
+export interface ValidationResult<T> {
+  data: T;
+  report: ValidationReport;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const validateMeta = (input: unknown, issues: string[]): StatsMeta | null => {
+  if (!isRecord(input)) {
+    issues.push('meta is not an object');
+    return null;
+  }
+
+  if (!isCount(input.totalItems)) {
+    issues.push('meta.totalItems is not a non-negative number');
+  }
+  if (typeof input.updatedAt !== 'string' || Number.isNaN(Date.parse(input.updatedAt))) {
+    issues.push('meta.updatedAt is not a date string');
+  }
+
+  return { totalItems: input.totalItems as number, updatedAt: input.updatedAt as string };
+};
+
+const validateHistoryItem = (input: unknown, index: number, issues: string[]): HistoryItem | null => {
+  if (!isRecord(input)) {
+    issues.push(`history[${index}] is not an object`);
+    return null;
+  }
+
+  const before = issues.length;
+  if (typeof input.t !== 'number' || !Number.isFinite(input.t)) {
+    issues.push(`history[${index}].t is not a timestamp`);
+  }
+  if (!isCount(input.last_chance)) {
+    issues.push(`history[${index}].last_chance is not a non-negative number`);
+  }
+  for (const key of ['ai', 'encore', 'zero_etv'] as const) {
+    if (input[key] !== undefined && !isCount(input[key])) {
+      issues.push(`history[${index}].${key} is not a non-negative number`);
+    }
+  }
+  if (issues.length > before) return null;
+
+  const item: HistoryItem = { t: input.t as number, last_chance: input.last_chance as number };
+  if (input.ai !== undefined) item.ai = input.ai as number;
+  if (input.encore !== undefined) item.encore = input.encore as number;
+  if (input.zero_etv !== undefined) item.zero_etv = input.zero_etv as number;
+  return item;
+};
+
+/**
+ * Sorts buckets by `t` and collapses duplicates, keeping the entry that appears last in the
+ * payload since that is the most recent revision of the bucket.
+ */
+const repairHistory = (items: HistoryItem[]): { history: HistoryItem[]; report: ValidationReport } => {
+  let reordered = false;
+  for (let i = 1; i < items.length; i++) {
+    if (items[i].t < items[i - 1].t) {
+      reordered = true;
+      break;
+    }
+  }
+
+  // Array.prototype.sort is stable, so equal timestamps keep their payload order
+  const sorted = reordered ? [...items].sort((a, b) => a.t - b.t) : items;
+  const history: HistoryItem[] = [];
+
+  for (const item of sorted) {
+    if (history.length && history[history.length - 1].t === item.t) {
+      history[history.length - 1] = item;
+    } else {
+      history.push(item);
+    }
+  }
+
+  return { history, report: { reordered, duplicatesRemoved: sorted.length - history.length } };
+};
+
+const validateHistory = (input: unknown, issues: string[]): ValidationResult<HistoryItem[]> | null => {
+  if (!Array.isArray(input)) {
+    issues.push('history is not an array');
+    return null;
+  }
+
+  const items: HistoryItem[] = [];
+  for (let i = 0; i < input.length && issues.length < MAX_ISSUES; i++) {
+    const item = validateHistoryItem(input[i], i, issues);
+    if (item) items.push(item);
+  }
+
+  const { history, report } = repairHistory(items);
+  return { data: history, report };
+};
+
+/**
+ * Checks an untrusted `stats.json` body and returns a typed, time-sorted copy. Throws a
+ * SchemaError listing the problems when any field has the wrong type.
+ */
+export const validateStatsData = (input: unknown): ValidationResult<StatsData> => {
+  const issues: string[] = [];
+  if (!isRecord(input)) {
+    throw new SchemaError(['payload is not an object']);
+  }
+
+  const meta = validateMeta(input.meta, issues);
+  const history = validateHistory(input.history, issues);
+  if (issues.length || !meta || !history) {
+    throw new SchemaError(issues);
+  }
+
+  return { data: { meta, history: history.data }, report: history.report };
+};
+
+export const validateStatsDelta = (input: unknown): ValidationResult<StatsDelta> => {
+  const { data, report } = validateStatsData(input);
+  const since = (input as Record<string, unknown>).since;
+  if (typeof since !== 'number' || !Number.isFinite(since)) {
+    throw new SchemaError(['since is not a timestamp']);
+  }
+
+  return { data: { delta: true, since, ...data }, report };
+};
+
+export const isRepaired = (report: ValidationReport): boolean =>
+  report.reordered || report.duplicatesRemoved > 0;
@@ -0,0 +1,215 @@
+import { ChartDataPoint, DashboardStats, DataCompleteness, ForecastPoint, HeatMapData, RollupIndex, StatsData, StatsForecast } from '../types';
+import {
+  buildRollupIndex,
+  processStats,
+  processChartData,
+  processHeatMaps,
+  processForecast,
+  processForecastSeries,
+  processCompleteness
+} from '../utils/analytics';
+import { DropEvent, QuietStats, RECENT_DROPS_MS, analyzeQuietPeriods, segmentDropEvents } from '../utils/drops';
+import { AnalyticsParams, AnalyticsRequest, AnalyticsResponse } from './analyticsProtocol';
+
+let dataset: StatsData | null = null;
+
+// Everything below is derived from `dataset` in `cacheTimeZone` and dropped when either changes
+let cacheTimeZone: string | null = null;
+let index: RollupIndex | null = null;
+let completenessCache: DataCompleteness | null = null;
+const statsCache = new Map<string, DashboardStats>();
+const forecastCache = new Map<string, StatsForecast | null>(); // null means no forecast
+const chartCache = new Map<string, ChartDataPoint[]>();
+const heatMapCache = new Map<string, HeatMapData>();
+const forecastSeriesCache = new Map<string, ForecastPoint[]>();
+const dropsCache = new Map<string, DropEvent[]>();
+const quietCache = new Map<string, QuietStats>();
+
+// Range-keyed results would otherwise pile up with every zoom, so each cache keeps only its most
+// recently used entries
+const MAX_CACHE_ENTRIES = 8;
+
+const recall = <T>(cache: Map<string, T>, key: string): T | undefined => {
+  if (!cache.has(key)) return undefined;
+  const value = cache.get(key);
+  cache.delete(key);
+  cache.set(key, value);
+  return value;
+};
+
+const remember = <T>(cache: Map<string, T>, key: string, value: T) => {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value);
+};
+
+// Only the newest compute request is ever run; older ones are dropped while they wait
+let pendingId = -1;
+let pendingParams: AnalyticsParams | null = null;
+let flushScheduled = false;
+
+const post = (response: AnalyticsResponse) => self.postMessage(response);
+
+const timed = <T>(label: string, fn: () => T): T => {
+  console.time(label);
+  const result = fn();
+  console.timeEnd(label);
+  return result;
+};
+
+// Yields to the event loop so cancel/compute messages queued behind the current job are seen
+const yieldToQueue = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const isStale = (id: number) => id !== pendingId;
+
+const resetCaches = (timeZone: string | null) => {
+  cacheTimeZone = timeZone;
+  index = null;
+  completenessCache = null;
+  statsCache.clear();
+  forecastCache.clear();
+  chartCache.clear();
+  heatMapCache.clear();
+  forecastSeriesCache.clear();
+  dropsCache.clear();
+  quietCache.clear();
+};
+
+const run = async (id: number, params: AnalyticsParams) => {
+  if (!dataset) return;
+  const { history, meta } = dataset;
+  const { timeZone } = params;
+
+  if (cacheTimeZone !== timeZone) {
+    resetCaches(timeZone);
+  }
+
+  const filterKey = params.filter.join(',');
+  let stats = recall(statsCache, filterKey);
+  if (!stats) {
+    stats = timed('[Perf] processStats', () => processStats(history, meta.updatedAt, timeZone, params.filter));
+    remember(statsCache, filterKey, stats);
+    await yieldToQueue();
+    if (isStale(id)) return;
+  }
+
+  if (!index) {
+    index = timed('[Perf] buildRollupIndex', () => buildRollupIndex(history, timeZone));
+    await yieldToQueue();
+    if (isStale(id)) return;
+  }
+  const currentIndex = index;
+  if (!completenessCache) {
+    completenessCache = timed('[Perf] processCompleteness', () => processCompleteness(currentIndex));
+  }
+
+  const { range, comparison, lookback, recencyWeighted } = params;
+  const heatMapRange = lookback === 'range' ? range : null;
+  const heatMapKey = [
+    filterKey,
+    heatMapRange ? `${heatMapRange.start}-${heatMapRange.end}` : lookback,
+    recencyWeighted ? 'weighted' : 'even'
+  ].join('|');
+  let heatMaps = recall(heatMapCache, heatMapKey);
+  if (!heatMaps) {
+    const options = { weeks: lookback === 'range' ? undefined : lookback, range: heatMapRange, recencyWeighted };
+    heatMaps = timed('[Perf] processHeatMaps', () => processHeatMaps(currentIndex, params.filter, options));
+    remember(heatMapCache, heatMapKey, heatMaps);
+    await yieldToQueue();
+    if (isStale(id)) return;
+  }
+
+  const chartKey = [
+    params.granularity,
+    filterKey,
+    range ? `${range.start}-${range.end}` : 'all',
+    `${comparison.amount}${comparison.unit}`,
+    params.profile,
+    heatMapKey
+  ].join('|');
+  let chartData = recall(chartCache, chartKey);
+  if (!chartData) {
+    const profile = params.profile === 'mean' ? heatMaps.hourlyMean : heatMaps.hourlyMedian;
+    chartData = timed('[Perf] processChartData', () =>
+      processChartData(currentIndex, params.granularity, params.filter, range, { shift: comparison, profile })
+    );
+    remember(chartCache, chartKey, chartData);
+    await yieldToQueue();
+    if (isStale(id)) return;
+  }
+
+  let forecast = recall(forecastCache, filterKey);
+  if (forecast === undefined) {
+    forecast = timed('[Perf] processForecast', () => processForecast(currentIndex, params.filter));
+    remember(forecastCache, filterKey, forecast);
+  }
+
+  const forecastKey = `${params.granularity}|${filterKey}`;
+  let forecastPoints = recall(forecastSeriesCache, forecastKey);
+  if (!forecastPoints) {
+    forecastPoints = timed('[Perf] processForecastSeries', () => processForecastSeries(currentIndex, params.granularity, params.filter));
+    remember(forecastSeriesCache, forecastKey, forecastPoints);
+  }
+
+  const dropKey = `${params.dropSize}|${filterKey}`;
+  const dropOptions = { minItems: params.dropSize, filter: params.filter };
+  let drops = recall(dropsCache, dropKey);
+  if (!drops) {
+    const since = history.length ? history[history.length - 1].t - RECENT_DROPS_MS : 0;
+    drops = timed('[Perf] segmentDropEvents', () => segmentDropEvents(history, { ...dropOptions, since }));
+    remember(dropsCache, dropKey, drops);
+  }
+
+  let quiet = recall(quietCache, dropKey);
+  if (!quiet) {
+    quiet = timed('[Perf] analyzeQuietPeriods', () => analyzeQuietPeriods(history, timeZone, dropOptions));
+    remember(quietCache, dropKey, quiet);
+  }
+
+  post({
+    type: 'result',
+    id,
+    result: { stats, chartData, heatMaps, completeness: completenessCache, forecast, forecastPoints, drops, quiet }
+  });
+};
+
+const flush = async () => {
+  flushScheduled = false;
+  const id = pendingId;
+  const params = pendingParams;
+  if (!params) return;
+  pendingParams = null;
+
+  try {
+    await run(id, params);
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+self.onmessage = (event: MessageEvent<AnalyticsRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'setData':
+      dataset = message.data;
+      resetCaches(null);
+      break;
+    case 'compute':
+      pendingId = message.id;
+      pendingParams = message.params;
+      if (!flushScheduled) {
+        flushScheduled = true;
+        setTimeout(flush, 0);
+      }
+      break;
+    case 'cancel':
+      if (pendingId === message.id) {
+        pendingId = -1;
+        pendingParams = null;
+      }
+      break;
+    default:
+      break;
+  }
+};
@@ -0,0 +1,50 @@
+import {
+  ChartDataPoint,
+  DashboardStats,
+  DataCompleteness,
+  DataFilter,
+  DateRange,
+  ForecastPoint,
+  Granularity,
+  HeatMapData,
+  HeatMapLookback,
+  IntensityMode,
+  PeriodShift,
+  StatsData,
+  StatsForecast
+} from '../types';
+import { DropEvent, QuietStats } from '../utils/drops';
+
+export interface AnalyticsParams {
+  granularity: Granularity;
+  filter: DataFilter;
+  timeZone: string;
+  range: DateRange | null; // Custom chart window; null means the full history
+  comparison: PeriodShift; // Offset of the previous-period overlay
+  profile: IntensityMode;  // Hourly profile the baseline overlay is read from
+  lookback: HeatMapLookback; // 'range' reads the heat maps from `range`
+  recencyWeighted: boolean;
+  dropSize: number;        // Items a 15m bucket needs to count towards a drop
+}
+
+export interface AnalyticsResult {
+  stats: DashboardStats;
+  chartData: ChartDataPoint[];
+  heatMaps: HeatMapData;
+  completeness: DataCompleteness;
+  forecast: StatsForecast | null;     // Null when the data is too stale to project from
+  forecastPoints: ForecastPoint[];    // Rest of the current day/week at the chart granularity
+  drops: DropEvent[];                 // Drop events over the last RECENT_DROPS_MS of data, oldest first
+  quiet: QuietStats;
+}
+
+// Main thread -> worker. `setData` is sent once per dataset; `compute` only carries the controls.
+export type AnalyticsRequest =
+  | { type: 'setData'; data: StatsData }
+  | { type: 'compute'; id: number; params: AnalyticsParams }
+  | { type: 'cancel'; id: number };
+
+// Worker -> main thread. Every response echoes the id of the `compute` request it answers.
+export type AnalyticsResponse =
+  | { type: 'result'; id: number; result: AnalyticsResult }
+  | { type: 'error'; id: number; message: string };